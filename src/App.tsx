@@ -1,48 +1,218 @@
 import {
   useEffect,
+  useMemo,
   useRef,
   useState,
   type CSSProperties,
   type ChangeEvent,
+  type DragEvent,
+  type Dispatch,
+  type SetStateAction,
 } from "react";
+import { flushSync } from "react-dom";
 import {
   Check,
   Copy,
   Download,
+  FileDown,
+  FileUp,
+  ImageDown,
+  Redo2,
   RotateCcw,
   Settings,
+  Trash2,
+  Undo2,
   Upload,
   X,
 } from "lucide-react";
 import appPackage from "../package.json";
 import logo from "./assets/logo.png";
-import DynoGraph from "./components/DynoGraph";
+import DraftTabs from "./components/DraftTabs";
+import DynoGraph, { type GraphRun } from "./components/DynoGraph";
+import EngineProfilePanel from "./components/EngineProfilePanel";
+import GaragePanel from "./components/GaragePanel";
 import {
   InlineEditable,
   InlineEditableSelect,
 } from "./components/InlineEditable";
+import LibraryPanel from "./components/LibraryPanel";
 import RpmGauge from "./components/RpmGauge";
+import RunImportPanel from "./components/RunImportPanel";
 import SearchPanel from "./components/SearchPanel";
+import ShiftLogPanel from "./components/ShiftLogPanel";
+import DiagnosticsPanel from "./components/DiagnosticsPanel";
+import UploadProgressPanel from "./components/UploadProgressPanel";
+import UploadQueuePanel from "./components/UploadQueuePanel";
+import { useHistory, type HistoryStacks } from "./hooks/useHistory";
 import { useToast } from "./hooks/useToast";
+import { useUploadQueue } from "./hooks/useUploadQueue";
 import {
+  createThumbnailDataUrl,
   getBestCaptureBlob,
   isValidImageBlob,
   prepareUploadBlob,
   renderPreviewBlob,
 } from "./services/capture";
-import { searchUploads, uploadReportImage } from "./services/api";
 import {
-  getPersistedState,
+  POWERBAND_THRESHOLD,
+  findPeakSample,
+  getCurveArea,
+  getPowerband,
+} from "./services/annotations";
+import {
+  EMPTY_SEARCH_FILTERS,
+  hasSearchFilters,
+  uploadReportImage,
+  type SearchFilters,
+  type SearchPage,
+} from "./services/api";
+import {
+  addDiagnostic,
+  createDiagnostic,
+  describeApiError,
+  formatDiagnostics,
+  getRetryAfterMs,
+  isRetryableError,
+} from "./services/apiErrors";
+import {
+  DEFAULT_UPLOAD_PROVIDER,
+  getMissingFields,
+  getSettingsError,
+  getStoredProviderSettings,
+  getUploadProvider,
+  setStoredProviderSettings,
+  UPLOAD_PROVIDERS,
+  type ProviderSettings,
+  type UploadProviderDefinition,
+} from "./services/uploadProviders";
+import {
+  advanceUploadPhase,
+  parseUploadTimeout,
+  startUploadProgress,
+  type UploadPhase,
+  type UploadProgressState,
+} from "./services/uploadProgress";
+import {
+  CORRECTION_STANDARDS,
+  formatCorrectionFactor,
+  getCorrectionStandardLabel,
+  parsePressureHpa,
+  resolveCorrection,
+  toCorrectionStandard,
+} from "./services/correction";
+import {
+  DEFAULT_CURVE_PROFILE,
+  buildSyntheticSamples,
+} from "./services/curves";
+import {
+  createDocMeta,
+  createDraftId,
+  getStoredDrafts,
+  toImportedDocMeta,
+  writeStoredDrafts,
+} from "./services/drafts";
+import {
+  DRIVETRAIN_TYPES,
+  estimateCrankValue,
+  parseDrivetrainLosses,
+  parseLossPercent,
+  resolveDrivetrainLoss,
+  type DrivetrainLosses,
+} from "./services/drivetrain";
+import {
+  deleteVehicle,
+  findVehicle,
+  listVehicles,
+  putVehicle,
+  toVehicleProfile,
+} from "./services/garage";
+import {
+  clipToRpmRange,
+  createAxisLock,
+  parseAxisSettings,
+  parseStartRpm,
+  type AxisSettings,
+} from "./services/graphScale";
+import {
+  findRun,
+  getRunPeaks,
+  getRunStyle,
+  STANDARD_BARO_KPA,
+} from "./services/runData";
+import {
+  formatPressure,
+  formatQuantity,
+  fromDisplayMetric,
+  getMetricQuantity,
+  getUnitLabels,
+  toDisplayMetric,
+  toDisplaySlider,
+  toDisplayUnits,
+  toUnitSystem,
+  type UnitSystem,
+} from "./services/units";
+import {
+  createReportId,
+  deleteReport,
+  getReport,
+  listReports,
+  putReport,
+} from "./services/library";
+import {
+  METRIC_BOUNDS,
+  isDecimalMetric,
+  isMetricKey,
+  normalizeMetricValue,
+  sliderConfig,
+} from "./services/metrics";
+import {
+  buildLogCsv,
+  createLogEntry,
+  listLogEntries,
+  putLogEntry,
+  setLogEntryUrl,
+  type OperatorLogFilters,
+} from "./services/operatorLog";
+import {
+  REPORT_FILE_EXTENSION,
+  createReportDocument,
+  parseReportDocument,
+  readReportFromImage,
+  serializeReportDocument,
+} from "./services/reportFile";
+import {
+  assignReportNumber,
+  formatReportNumber,
+  getNextSequence,
+  isValidReportNumberFormat,
+  setNextSequence,
+  toReportNumberFormat,
+} from "./services/reportNumber";
+import {
+  clearQuarantine,
+  createDefaultState,
+  getQuarantine,
   getStoredValue,
   setStoredValue,
   STORAGE_KEYS,
+  toPersistedState,
 } from "./services/storage";
 import type {
+  ApiDiagnostic,
   DynoData,
+  DynoRun,
+  LibraryReport,
+  LogAction,
   MetricKey,
+  OperatorLogEntry,
+  PersistedState,
+  QueuedUpload,
   RecentUpload,
+  ReportDraft,
   SliderItem,
-  UploadProvider,
+  UploadProviderId,
+  UploadReportDetails,
+  VehicleProfile,
 } from "./types";
 
 const SHOP_NAME = "FAKA PERFORMANCE";
@@ -53,9 +223,13 @@ const defaults: DynoData = {
   engine: "V8 TT",
   plate: "FAKA-900R",
   drivetrain: "RWD",
+  drivetrainLossOverride: "",
   extTemp: "24 C",
   humidity: "52",
+  baroPressure: "1013",
+  correctionStandard: "SAE",
   correctionFactor: "1.02",
+  correctionOverride: false,
   operator: "A. Mercer",
   owner: "Franklin Clinton",
   mechanicNotes: "Проверен бууст контролер. Няма детонации при пълен товар.",
@@ -66,39 +240,25 @@ const defaults: DynoData = {
   rpm: 0,
 };
 
-const sliderConfig: SliderItem[] = [
-  { key: "whp", label: "Max HP", min: 0, max: 2200, step: 1 },
-  { key: "wtq", label: "Max TQ", min: 0, max: 1200, step: 1 },
-  { key: "psi", label: "Boost PSI", min: 0, max: 40, step: 0.1 },
-  { key: "afr", label: "AFR", min: 0, max: 14, step: 0.1 },
-  { key: "rpm", label: "Max RPM", min: 0, max: 12000, step: 50 },
-];
-
 const MECHANIC_NOTES_MAX_LENGTH = 1024;
 const SPLASH_SKIP_WINDOW_MS = 4 * 60 * 60 * 1000;
 const EXPORT_WIDTH = 1000;
 const SEARCH_PAGE_SIZE = 7;
 
-const UPLOAD_PROVIDERS: Record<UploadProvider, UploadProvider> = {
-  primary: "primary",
-  imgbb: "imgbb",
-};
-
-function toUploadProvider(value: string): UploadProvider {
-  return value === UPLOAD_PROVIDERS.imgbb
-    ? UPLOAD_PROVIDERS.imgbb
-    : UPLOAD_PROVIDERS.primary;
-}
+// A server without cursors may answer with the whole list, so the last
+// response is paged locally instead of showing as one long page.
+function toSearchPages(page: SearchPage): RecentUpload[][] {
+  if (page.nextCursor || page.items.length <= SEARCH_PAGE_SIZE) {
+    return [page.items];
+  }
 
-const DECIMAL_METRICS = new Set<MetricKey>(["psi", "afr"]);
+  const pages: RecentUpload[][] = [];
+  for (let index = 0; index < page.items.length; index += SEARCH_PAGE_SIZE) {
+    pages.push(page.items.slice(index, index + SEARCH_PAGE_SIZE));
+  }
 
-const METRIC_BOUNDS: Record<MetricKey, SliderItem> = sliderConfig.reduce(
-  (acc, item) => {
-    acc[item.key] = item;
-    return acc;
-  },
-  {} as Record<MetricKey, SliderItem>,
-);
+  return pages;
+}
 
 function formatRecentUploadTime(createdAt: number): string {
   const timestamp = Number(createdAt);
@@ -137,27 +297,32 @@ function downloadBlob(blob: Blob, fileName: string): void {
 function buildReportFileName(
   model: string,
   plate: string,
-  unixTimestamp = Math.floor(Date.now() / 1000),
+  unitSystem: UnitSystem,
+  reportNumber: string,
 ): string {
   const safeModel = sanitizeForFile(model);
   const safeRegNumber = sanitizeForFile(plate);
-  return `faka-dyno-${safeModel}-${safeRegNumber}-${unixTimestamp}.png`;
-}
-
-function isDecimalMetric(key: MetricKey): boolean {
-  return DECIMAL_METRICS.has(key);
+  const unitSuffix = unitSystem === "metric" ? "-metric" : "";
+  return `faka-dyno-${safeModel}-${safeRegNumber}${unitSuffix}-${sanitizeForFile(reportNumber)}.png`;
 }
 
-function isMetricKey(key: keyof DynoData): key is MetricKey {
-  return key in METRIC_BOUNDS;
+function formatMetricValue(key: MetricKey, value: number): string {
+  return isDecimalMetric(key) ? value.toFixed(1) : String(value);
 }
 
-function normalizeMetricValue(key: MetricKey, value: number): number {
-  return isDecimalMetric(key) ? Number(value.toFixed(1)) : Math.round(value);
+function formatDisplayMetric(
+  key: MetricKey,
+  value: number,
+  unitSystem: UnitSystem,
+): string {
+  const quantity = getMetricQuantity(key);
+  return quantity
+    ? formatQuantity(quantity, value, unitSystem)
+    : formatMetricValue(key, value);
 }
 
-function formatMetricValue(key: MetricKey, value: number): string {
-  return isDecimalMetric(key) ? value.toFixed(1) : String(value);
+function formatDelta(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
 }
 
 function maskApiKey(value: string): string {
@@ -213,11 +378,77 @@ async function copyUrlForEmbedding(url: string): Promise<boolean> {
   return false;
 }
 
+const NON_TEXT_INPUT_TYPES = [
+  "button",
+  "checkbox",
+  "color",
+  "file",
+  "radio",
+  "range",
+  "reset",
+  "submit",
+];
+
+// Sliders and checkboxes have no native undo, so app shortcuts stay active.
+function isTextEntryTarget(target: HTMLElement | null): boolean {
+  if (!target) {
+    return false;
+  }
+
+  if (target instanceof HTMLInputElement) {
+    return !NON_TEXT_INPUT_TYPES.includes(target.type);
+  }
+
+  return target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+// Library ids and report numbers survive undo once they are assigned.
+const HISTORY_IGNORE_KEYS: (keyof PersistedState)[] = [
+  "reportId",
+  "reportNumber",
+];
+
+const RESET_LABEL = "Reset";
+const OPEN_REPORT_LABEL = "Отваряне на доклад";
+// Undoing across these goes back to another report, so its own ids return.
+const REPORT_SWITCH_LABELS = [RESET_LABEL, OPEN_REPORT_LABEL];
+
 function App() {
-  const [persistedState] = useState(() => getPersistedState(defaults));
+  const [storedDrafts] = useState(() => getStoredDrafts(defaults));
+  const [quarantine, setQuarantine] = useState(getQuarantine);
+  const [drafts, setDrafts] = useState(storedDrafts.drafts);
+  const [activeDraftId, setActiveDraftId] = useState(storedDrafts.activeId);
+  const draftHistoriesRef = useRef(
+    new Map<string, HistoryStacks<PersistedState>>(),
+  );
+  const initialDraft =
+    storedDrafts.drafts.find((item) => item.id === storedDrafts.activeId) ??
+    storedDrafts.drafts[0];
+  const persistedState = initialDraft.state;
+  const [reportId, setReportId] = useState(persistedState.reportId);
+  const [reportNumber, setReportNumber] = useState(persistedState.reportNumber);
   const [data, setData] = useState(persistedState.data);
+  const [runs, setRuns] = useState(persistedState.runs);
+  const [baselineRunId, setBaselineRunId] = useState(
+    persistedState.baselineRunId,
+  );
+  const [selectedRunId, setSelectedRunId] = useState(
+    persistedState.selectedRunId,
+  );
+  const [curveProfile, setCurveProfile] = useState(persistedState.curveProfile);
+  const [pinnedRpm, setPinnedRpm] = useState(persistedState.pinnedRpm);
   const [showHp, setShowHp] = useState(persistedState.showHp);
   const [showTq, setShowTq] = useState(persistedState.showTq);
+  const [showBoost, setShowBoost] = useState(persistedState.showBoost);
+  const [showAfr, setShowAfr] = useState(persistedState.showAfr);
+  const [showPeaks, setShowPeaks] = useState(persistedState.showPeaks);
+  const [showPowerband, setShowPowerband] = useState(
+    persistedState.showPowerband,
+  );
+  const [showArea, setShowArea] = useState(persistedState.showArea);
+  const [libraryReports, setLibraryReports] = useState<LibraryReport[]>([]);
+  const [vehicles, setVehicles] = useState<VehicleProfile[]>([]);
+  const [logEntries, setLogEntries] = useState<OperatorLogEntry[]>([]);
   const [hasStarted, setHasStarted] = useState(() => {
     const lastSeenRaw = getStoredValue(STORAGE_KEYS.splashLastSeen, "0");
     const lastSeen = Number(lastSeenRaw || 0);
@@ -227,55 +458,268 @@ function App() {
 
     return Date.now() - lastSeen < SPLASH_SKIP_WINDOW_MS;
   });
-  const [mainApiKey, setMainApiKey] = useState(() =>
-    getStoredValue(STORAGE_KEYS.apiKey),
+  const [providerSettings, setProviderSettings] = useState(
+    getStoredProviderSettings,
   );
-  const [imgbbApiKey, setImgbbApiKey] = useState(() =>
-    getStoredValue(STORAGE_KEYS.imgbbApiKey),
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(() =>
+    toUnitSystem(getStoredValue(STORAGE_KEYS.unitSystem)),
+  );
+  const [drivetrainLosses, setDrivetrainLosses] = useState<DrivetrainLosses>(
+    () => parseDrivetrainLosses(getStoredValue(STORAGE_KEYS.drivetrainLosses)),
+  );
+  const [axisSettings, setAxisSettings] = useState<AxisSettings>(() =>
+    parseAxisSettings(getStoredValue(STORAGE_KEYS.graphAxes)),
+  );
+  const [uploadProvider, setUploadProvider] = useState<UploadProviderId>(
+    () => getUploadProvider(getStoredValue(STORAGE_KEYS.uploadProvider)).id,
+  );
+  const [uploadTarget, setUploadTarget] = useState<UploadProviderId | null>(
+    null,
   );
-  const [uploadProvider, setUploadProvider] = useState<UploadProvider>(() => {
-    const stored = getStoredValue(STORAGE_KEYS.uploadProvider);
-    return toUploadProvider(stored);
-  });
   const [isApiModalOpen, setIsApiModalOpen] = useState(false);
-  const [providerDraft, setProviderDraft] = useState<UploadProvider>(
-    UPLOAD_PROVIDERS.primary,
+  const [providerDraft, setProviderDraft] = useState<UploadProviderId>(
+    DEFAULT_UPLOAD_PROVIDER,
   );
-  const [apiKeyDraft, setApiKeyDraft] = useState("");
+  const [editingProviderDraft, setEditingProviderDraft] =
+    useState<UploadProviderId>(DEFAULT_UPLOAD_PROVIDER);
+  const [providerSettingsDraft, setProviderSettingsDraft] = useState<
+    Record<UploadProviderId, ProviderSettings>
+  >({});
+  const [unitSystemDraft, setUnitSystemDraft] =
+    useState<UnitSystem>(unitSystem);
+  const [lossDrafts, setLossDrafts] = useState<Record<string, string>>({});
+  const [startRpmDraft, setStartRpmDraft] = useState("");
+  const [splitAxesDraft, setSplitAxesDraft] = useState(false);
+  const [lockScaleDraft, setLockScaleDraft] = useState(false);
+  const [reportNumberFormat, setReportNumberFormat] = useState(() =>
+    toReportNumberFormat(getStoredValue(STORAGE_KEYS.reportNumberFormat)),
+  );
+  const [numberFormatDraft, setNumberFormatDraft] = useState("");
+  const [nextNumberDraft, setNextNumberDraft] = useState("");
   const [isDownloading, setIsDownloading] = useState(false);
   const [isCopying, setIsCopying] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [uploadProgress, setUploadProgress] =
+    useState<UploadProgressState | null>(null);
+  const [uploadTimeout, setUploadTimeout] = useState(() =>
+    parseUploadTimeout(getStoredValue(STORAGE_KEYS.uploadTimeout)),
+  );
+  const [uploadTimeoutDraft, setUploadTimeoutDraft] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<RecentUpload[]>([]);
+  const [searchFilters, setSearchFilters] =
+    useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [searchPages, setSearchPages] = useState<RecentUpload[][]>([]);
+  // Later pages reuse the query and filters of the search that issued the cursor.
+  const [searchNext, setSearchNext] = useState<{
+    query: string;
+    filters: SearchFilters;
+    cursor: string;
+  } | null>(null);
+  const searchRequestRef = useRef(0);
+  const draftsWriteFailedRef = useRef(false);
+  const [searchTotal, setSearchTotal] = useState<number | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [currentSearchPage, setCurrentSearchPage] = useState(1);
   const [previewUpload, setPreviewUpload] = useState<RecentUpload | null>(null);
   const apiModalRef = useRef<HTMLDivElement | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ApiDiagnostic[]>([]);
+  const uploadAbortRef = useRef<AbortController | null>(null);
   const { toast, showToast } = useToast();
   const previewRef = useRef<HTMLElement | null>(null);
-  const [docMeta] = useState(() => {
-    const unixId = Math.floor(Date.now() / 1000);
-    const createdAt = new Date(unixId * 1000).toLocaleString("bg-BG", {
-      day: "2-digit",
-      month: "2-digit",
-      year: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  const reportFileInputRef = useRef<HTMLInputElement | null>(null);
+  const imageFileInputRef = useRef<HTMLInputElement | null>(null);
+  const [docMeta, setDocMeta] = useState(initialDraft.docMeta);
 
-    return { unixId, createdAt };
-  });
+  const selectedRun = findRun(runs, selectedRunId, runs.at(-1) ?? null);
+  const baselineRun = findRun(runs, baselineRunId, runs[0] ?? null);
+  const comparedRun =
+    baselineRun && selectedRun && baselineRun.id !== selectedRun.id
+      ? baselineRun
+      : null;
 
   const vehicleName = data.model.trim();
-
-  const summary = `Сервиз: ${SHOP_NAME}\nМодел: ${vehicleName}\nMax WHP: ${data.whp}\nMax WTQ: ${data.wtq}\nBoost/AFR: ${data.psi.toFixed(
-    1,
-  )} psi / ${data.afr.toFixed(1)}\nMax RPM: ${data.rpm}\nВъншна темп: ${data.extTemp}\nВлажност: ${data.humidity}%\nКорекционен фактор: ${data.correctionFactor}\nID: ${docMeta.unixId}\nОператор: ${data.operator}\nСобственик: ${data.owner}\nСъздаден: ${docMeta.createdAt}\nБележки: ${data.mechanicNotes}`;
+  const runPeaks = selectedRun ? getRunPeaks(selectedRun.samples) : null;
+  const peaks = {
+    whp: runPeaks?.whp ?? data.whp,
+    wtq: runPeaks?.wtq ?? data.wtq,
+    rpm: runPeaks?.rpm ?? data.rpm,
+    psi: runPeaks?.psi ?? data.psi,
+    afr: runPeaks?.afr ?? data.afr,
+  };
+  const baselinePeaks = comparedRun ? getRunPeaks(comparedRun.samples) : null;
+  const peakDeltas = baselinePeaks
+    ? {
+        whp: peaks.whp - baselinePeaks.whp,
+        wtq: peaks.wtq - baselinePeaks.wtq,
+      }
+    : null;
+
+  const graphRuns = useMemo<GraphRun[]>(
+    () =>
+      runs.flatMap((item) =>
+        item.hidden
+          ? []
+          : [
+              {
+                id: item.id,
+                samples: item.samples,
+                style: getRunStyle(item.styleIndex),
+              },
+            ],
+      ),
+    [runs],
+  );
+  const metricValues: Record<MetricKey, number> = peaks;
+  const unitLabels = getUnitLabels(unitSystem);
+  const displaySliders = useMemo(
+    () => sliderConfig.map((item) => toDisplaySlider(item, unitSystem)),
+    [unitSystem],
+  );
+  const displayPower = formatQuantity("power", peaks.whp, unitSystem);
+  const displayTorque = formatQuantity("torque", peaks.wtq, unitSystem);
+  const drivetrainLoss = resolveDrivetrainLoss(data, drivetrainLosses);
+  const defaultDrivetrainLoss = resolveDrivetrainLoss(
+    { ...data, drivetrainLossOverride: "" },
+    drivetrainLosses,
+  ).percent;
+  const crankPower = formatQuantity(
+    "power",
+    estimateCrankValue(peaks.whp, drivetrainLoss.percent),
+    unitSystem,
+  );
+  const crankTorque = formatQuantity(
+    "torque",
+    estimateCrankValue(peaks.wtq, drivetrainLoss.percent),
+    unitSystem,
+  );
+  const correction = resolveCorrection(data);
+  const baroHpa = parsePressureHpa(data.baroPressure);
+  const baroKpa = baroHpa === null ? STANDARD_BARO_KPA : baroHpa / 10;
+  const baroSummary =
+    baroHpa === null
+      ? data.baroPressure
+      : `${formatPressure(baroHpa, unitSystem)} ${unitLabels.pressure}`;
+  const correctionLabel = `${getCorrectionStandardLabel(data.correctionStandard)}${
+    correction.isOverride ? ", ръчно" : ""
+  }`;
+  const correctedPower = formatQuantity(
+    "power",
+    peaks.whp * correction.factor,
+    unitSystem,
+  );
+  const correctedTorque = formatQuantity(
+    "torque",
+    peaks.wtq * correction.factor,
+    unitSystem,
+  );
+  const displayBoost = formatQuantity("boost", peaks.psi, unitSystem);
+  const displayDeltas = peakDeltas
+    ? {
+        power: Math.round(toDisplayUnits("power", peakDeltas.whp, unitSystem)),
+        torque: Math.round(
+          toDisplayUnits("torque", peakDeltas.wtq, unitSystem),
+        ),
+      }
+    : null;
+
+  const isRunDriven = (key: MetricKey) => runPeaks?.[key] !== undefined;
+
+  const annotationSource = useMemo(
+    () =>
+      selectedRun?.samples ??
+      buildSyntheticSamples({
+        whp: data.whp,
+        wtq: data.wtq,
+        rpm: data.rpm,
+        psi: data.psi,
+        afr: data.afr,
+        curve: curveProfile,
+      }),
+    [
+      selectedRun,
+      data.whp,
+      data.wtq,
+      data.rpm,
+      data.psi,
+      data.afr,
+      curveProfile,
+    ],
+  );
+  const annotationSamples = useMemo(
+    () =>
+      clipToRpmRange(
+        annotationSource,
+        axisSettings,
+        graphRuns.length
+          ? Math.max(
+              ...graphRuns.flatMap((item) =>
+                item.samples.map((sample) => sample.rpm),
+              ),
+            )
+          : data.rpm,
+      ),
+    [annotationSource, axisSettings, graphRuns, data.rpm],
+  );
+  const peakHpSample = findPeakSample(annotationSamples, "hp");
+  const peakTqSample = findPeakSample(annotationSamples, "tq");
+  const powerband = getPowerband(annotationSamples);
+  const annotationSummary = [
+    showPeaks && peakHpSample && peakTqSample
+      ? `Пик ${unitLabels.power} при ${Math.round(peakHpSample.rpm)} RPM / ${unitLabels.torque} при ${Math.round(peakTqSample.rpm)} RPM`
+      : "",
+    showPowerband && powerband
+      ? `Powerband (≥${Math.round(POWERBAND_THRESHOLD * 100)}% от пика): ${Math.round(powerband.startRpm)}–${Math.round(powerband.endRpm)} RPM`
+      : "",
+    showArea
+      ? `Площ под ${unitLabels.power}: ${Math.round(
+          toDisplayUnits("power", getCurveArea(annotationSamples), unitSystem),
+        )} ${unitLabels.power}·krpm`
+      : "",
+  ]
+    .filter(Boolean)
+    .map((line) => `\n${line}`)
+    .join("");
+  const buildSummary = (number: string | null) =>
+    `Сервиз: ${SHOP_NAME}\nМодел: ${vehicleName}\nMax ${unitLabels.power}: ${displayPower}\nMax ${unitLabels.torque}: ${displayTorque}\nBoost/AFR: ${displayBoost} ${unitLabels.boost} / ${peaks.afr.toFixed(1)}\nMax RPM: ${peaks.rpm}${
+      comparedRun && displayDeltas
+        ? `\nПрираст спрямо ${comparedRun.name}: ${formatDelta(displayDeltas.power)} ${unitLabels.power} / ${formatDelta(displayDeltas.torque)} ${unitLabels.torque}`
+        : ""
+    }${annotationSummary}\nКоригирано: ${correctedPower} ${unitLabels.power} / ${correctedTorque} ${unitLabels.torque}\nКолянов вал (оценка, ${drivetrainLoss.percent}% загуби): ≈${crankPower} ${unitLabels.crankPower} / ≈${crankTorque} ${unitLabels.crankTorque}\nВъншна темп: ${data.extTemp}\nВлажност: ${data.humidity}%\nНалягане: ${baroSummary}\nКорекционен фактор: ${formatCorrectionFactor(correction.factor)} (${correctionLabel})\nНомер: ${number ?? docMeta.docId}\nОператор: ${data.operator}\nСобственик: ${data.owner}\nСъздаден: ${docMeta.createdAt}\nБележки: ${data.mechanicNotes}`;
+
+  const buildUploadDetails = (number: string | null): UploadReportDetails => ({
+    title: `${SHOP_NAME} · ${number ?? docMeta.docId}`,
+    fields: [
+      { name: "Модел", value: vehicleName, inline: true },
+      { name: "Рег. номер", value: data.plate, inline: true },
+      { name: "Оператор", value: data.operator, inline: true },
+      {
+        name: `Max ${unitLabels.power}`,
+        value: `${displayPower} ${unitLabels.power}`,
+        inline: true,
+      },
+      {
+        name: `Max ${unitLabels.torque}`,
+        value: `${displayTorque} ${unitLabels.torque}`,
+        inline: true,
+      },
+      {
+        name: "Boost/AFR",
+        value: `${displayBoost} ${unitLabels.boost} / ${peaks.afr.toFixed(1)}`,
+        inline: true,
+      },
+      { name: "Бележки", value: data.mechanicNotes, inline: false },
+    ],
+  });
 
   const updateMetric =
     (key: MetricKey) => (event: ChangeEvent<HTMLInputElement>) => {
-      const raw = Number(event.target.value);
+      const raw = fromDisplayMetric(
+        key,
+        Number(event.target.value),
+        unitSystem,
+      );
+      history.mark(`Плъзгач ${key}`, `slider-${key}`);
       setData((prev) => ({
         ...prev,
         [key]: normalizeMetricValue(key, raw),
@@ -291,11 +735,26 @@ function App() {
       }
 
       const clamped = Math.max(item.min, Math.min(item.max, parsed));
-      const nextValue = normalizeMetricValue(item.key, clamped);
+      const nextValue = normalizeMetricValue(
+        item.key,
+        fromDisplayMetric(item.key, clamped, unitSystem),
+      );
+      history.mark(`Плъзгач ${item.key}`, `input-${item.key}`);
       setData((prev) => ({ ...prev, [item.key]: nextValue }));
     };
 
   const applyInlineUpdate = (key: keyof DynoData, rawValue: string) => {
+    const unchanged =
+      key === "correctionFactor"
+        ? rawValue.trim() === formatCorrectionFactor(correction.factor)
+        : key === "baroPressure" &&
+          baroHpa !== null &&
+          rawValue.trim() === formatPressure(baroHpa, unitSystem);
+    if (unchanged) {
+      return;
+    }
+
+    history.mark(`Редакция ${key}`);
     if (isMetricKey(key)) {
       const normalizedText = rawValue.replace(",", ".").trim();
       const parsed = Number(normalizedText);
@@ -310,6 +769,47 @@ function App() {
       return;
     }
 
+    if (key === "correctionFactor") {
+      setData((prev) => ({
+        ...prev,
+        correctionFactor: rawValue.trim(),
+        correctionOverride: true,
+      }));
+      return;
+    }
+
+    // Stored in hPa; a bare number is read in the report's pressure unit.
+    if (key === "baroPressure") {
+      const text = rawValue.trim();
+      const hpa = parsePressureHpa(
+        /[a-z]/i.test(text) ? text : `${text} ${unitLabels.pressure}`,
+      );
+      if (hpa !== null) {
+        setData((prev) => ({
+          ...prev,
+          baroPressure: String(Number(hpa.toFixed(1))),
+        }));
+      }
+      return;
+    }
+
+    if (key === "drivetrainLossOverride") {
+      const percent = parseLossPercent(rawValue);
+      setData((prev) => ({
+        ...prev,
+        drivetrainLossOverride: percent === null ? "" : String(percent),
+      }));
+      return;
+    }
+
+    if (key === "correctionStandard") {
+      setData((prev) => ({
+        ...prev,
+        correctionStandard: toCorrectionStandard(rawValue),
+      }));
+      return;
+    }
+
     if (key === "mechanicNotes") {
       setData((prev) => ({
         ...prev,
@@ -321,53 +821,467 @@ function App() {
     setData((prev) => ({ ...prev, [key]: rawValue }));
   };
 
-  const handleReset = () => setData(defaults);
+  const reportState = useMemo<PersistedState>(
+    () => ({
+      reportId,
+      reportNumber,
+      data,
+      runs,
+      baselineRunId,
+      selectedRunId,
+      curveProfile,
+      pinnedRpm,
+      showHp,
+      showTq,
+      showBoost,
+      showAfr,
+      showPeaks,
+      showPowerband,
+      showArea,
+    }),
+    [
+      reportId,
+      reportNumber,
+      data,
+      runs,
+      baselineRunId,
+      selectedRunId,
+      curveProfile,
+      pinnedRpm,
+      showHp,
+      showTq,
+      showBoost,
+      showAfr,
+      showPeaks,
+      showPowerband,
+      showArea,
+    ],
+  );
 
-  const setSearchOutcome = (items: RecentUpload[]) => {
-    setSearchResults(items);
-    setHasSearched(true);
-    setCurrentSearchPage(1);
+  const applyReportState = (state: PersistedState) => {
+    setReportId(state.reportId);
+    setReportNumber(state.reportNumber);
+    setData(state.data);
+    setRuns(state.runs);
+    setBaselineRunId(state.baselineRunId);
+    setSelectedRunId(state.selectedRunId);
+    setCurveProfile(state.curveProfile);
+    setPinnedRpm(state.pinnedRpm);
+    setShowHp(state.showHp);
+    setShowTq(state.showTq);
+    setShowBoost(state.showBoost);
+    setShowAfr(state.showAfr);
+    setShowPeaks(state.showPeaks);
+    setShowPowerband(state.showPowerband);
+    setShowArea(state.showArea);
+  };
+
+  const history = useHistory(
+    reportState,
+    (state, label) =>
+      applyReportState(
+        REPORT_SWITCH_LABELS.includes(label)
+          ? state
+          : {
+              ...state,
+              reportId: reportId ?? state.reportId,
+              reportNumber: reportNumber ?? state.reportNumber,
+            },
+      ),
+    { ignoreKeys: HISTORY_IGNORE_KEYS },
+  );
+
+  const syncActiveDraft = (items: ReportDraft[]): ReportDraft[] =>
+    items.map((item) =>
+      item.id === activeDraftId
+        ? { ...item, docMeta, state: reportState }
+        : item,
+    );
+
+  const activateDraft = (draft: ReportDraft) => {
+    const histories = draftHistoriesRef.current;
+    histories.set(activeDraftId, history.swapStacks(histories.get(draft.id)));
+    setActiveDraftId(draft.id);
+    setDocMeta(draft.docMeta);
+    applyReportState(draft.state);
   };
 
-  const handleApiSearch = async () => {
-    if (uploadProvider !== UPLOAD_PROVIDERS.primary || isSearching) {
+  const switchDraft = (id: string) => {
+    const target = drafts.find((item) => item.id === id);
+    if (!target || id === activeDraftId) {
       return;
     }
 
-    const query = searchQuery.trim();
-    if (!query) {
-      showToast("Въведи текст за търсене.", "info");
+    setDrafts(syncActiveDraft);
+    activateDraft(target);
+  };
+
+  const openDraft = (draft: ReportDraft) => {
+    setDrafts((prev) => [...syncActiveDraft(prev), draft]);
+    activateDraft(draft);
+  };
+
+  const addDraft = () => {
+    openDraft({
+      id: createDraftId(),
+      docMeta: createDocMeta(),
+      state: createDefaultState(defaults),
+    });
+  };
+
+  // Numbers are issued once, when the report first leaves the app.
+  const finalizeReport = (): PersistedState & { reportNumber: string } => {
+    const number = reportNumber ?? assignReportNumber(reportNumberFormat);
+    if (!reportNumber) {
+      // The preview must show the number before it is captured.
+      flushSync(() => setReportNumber(number));
+    }
+
+    return { ...reportState, reportNumber: number };
+  };
+
+  const createCurrentReportDocument = (state = reportState) =>
+    createReportDocument({
+      state,
+      docMeta,
+      branding: { shopName: SHOP_NAME, appVersion: appPackage.version ?? "" },
+    });
+
+  const handleExportReport = () => {
+    const state = finalizeReport();
+    const reportDocument = createCurrentReportDocument(state);
+    const fileName = `faka-dyno-${sanitizeForFile(data.model)}-${sanitizeForFile(
+      data.plate,
+    )}-${sanitizeForFile(state.reportNumber)}${REPORT_FILE_EXTENSION}`;
+
+    downloadBlob(
+      new Blob([serializeReportDocument(reportDocument)], {
+        type: "application/json",
+      }),
+      fileName,
+    );
+    showToast("Докладът е експортиран.", "success");
+  };
+
+  const downloadQuarantine = () => {
+    downloadBlob(
+      new Blob([JSON.stringify(quarantine, null, 2)], {
+        type: "application/json",
+      }),
+      `faka-dyno-quarantine-${Date.now()}.json`,
+    );
+  };
+
+  const discardQuarantine = () => {
+    clearQuarantine();
+    setQuarantine([]);
+    showToast("Карантината е изчистена.", "info");
+  };
+
+  const handleImportReport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
       return;
     }
 
-    if (!mainApiKey) {
-      setProviderDraft(UPLOAD_PROVIDERS.primary);
-      openApiModal();
+    try {
+      const imported = parseReportDocument(await file.text(), defaults);
+      openDraft({
+        id: createDraftId(),
+        docMeta: toImportedDocMeta(imported.docMeta),
+        state: imported.state,
+      });
+      showToast(`Импортиран доклад ${file.name}.`, "success");
+    } catch (error) {
+      showToast(
+        `Грешка при импорт: ${
+          error instanceof Error ? error.message : "невалиден файл."
+        }`,
+        "error",
+      );
+    }
+  };
+
+  const loadReportFromImage = async (blob: Blob, label: string) => {
+    try {
+      const imported = await readReportFromImage(blob, defaults);
+      openDraft({
+        id: createDraftId(),
+        docMeta: toImportedDocMeta(imported.docMeta),
+        state: imported.state,
+      });
+      showToast(`Зареден доклад от ${label}.`, "success");
+    } catch (error) {
+      showToast(
+        `Грешка при зареждане от изображение: ${
+          error instanceof Error ? error.message : "невалиден файл."
+        }`,
+        "error",
+      );
+    }
+  };
+
+  const handleImageFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) {
+      await loadReportFromImage(file, file.name);
+    }
+  };
+
+  const handleImageDrop = async (event: DragEvent<HTMLDivElement>) => {
+    const file = event.dataTransfer.files[0];
+    if (!file || file.type !== "image/png") {
       return;
     }
 
-    setIsSearching(true);
+    event.preventDefault();
+    await loadReportFromImage(file, file.name);
+  };
+
+  const loadReportFromUpload = async (upload: RecentUpload) => {
+    let blob: Blob;
     try {
-      const normalized = await searchUploads(query, mainApiKey);
-      setSearchOutcome(normalized);
+      const response = await fetch(upload.url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      blob = await response.blob();
+    } catch (error) {
       showToast(
-        normalized.length
-          ? `Намерени ${normalized.length} файла.`
-          : "Няма съвпадения за това търсене.",
-        normalized.length ? "success" : "info",
+        `Изображението не може да бъде изтеглено (${
+          error instanceof Error ? error.message : "мрежова грешка"
+        }).`,
+        "error",
       );
+      return;
+    }
+
+    await loadReportFromImage(blob, upload.fileName || upload.url);
+  };
+
+  const closeDraft = (id: string) => {
+    const index = drafts.findIndex((item) => item.id === id);
+    if (index < 0 || drafts.length < 2) {
+      return;
+    }
+
+    const remaining = syncActiveDraft(drafts).filter((item) => item.id !== id);
+    setDrafts(remaining);
+    if (id === activeDraftId) {
+      activateDraft(remaining[Math.max(0, index - 1)]);
+    }
+    draftHistoriesRef.current.delete(id);
+  };
+
+  const handleReset = () => {
+    history.mark(RESET_LABEL);
+    setReportId(null);
+    setReportNumber(null);
+    setData(defaults);
+    setRuns([]);
+    setBaselineRunId(null);
+    setSelectedRunId(null);
+    setCurveProfile(DEFAULT_CURVE_PROFILE);
+    setPinnedRpm(null);
+    showToast("Докладът е нулиран. Ctrl+Z връща промяната.", "info");
+  };
+
+  const handleRunImported = (nextRun: DynoRun) => {
+    history.mark("Импорт CSV");
+    setRuns((prev) => [...prev, nextRun]);
+    setSelectedRunId(nextRun.id);
+    showToast(
+      `Импортирани ${nextRun.samples.length} точки от ${nextRun.fileName}.`,
+      "success",
+    );
+  };
+
+  const updateRun = (id: string, patch: Partial<DynoRun>) => {
+    setRuns((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    );
+  };
+
+  const toggleLayer = (
+    label: string,
+    setValue: Dispatch<SetStateAction<boolean>>,
+  ) => {
+    history.mark(label);
+    setValue((prev) => !prev);
+  };
+
+  const changePinnedRpm = (rpm: number | null) => {
+    history.mark(rpm === null ? "Премахнат маркер" : "Маркер на графиката");
+    setPinnedRpm(rpm);
+  };
+
+  const removeRun = (id: string) => {
+    setRuns((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const recordApiError = (
+    error: unknown,
+    context: string,
+    provider: UploadProviderId,
+  ) => {
+    setDiagnostics((prev) =>
+      addDiagnostic(prev, createDiagnostic(error, context, provider)),
+    );
+  };
+
+  const copyDiagnostics = async () => {
+    try {
+      await navigator.clipboard.writeText(formatDiagnostics(diagnostics));
+      showToast("Диагностиката е копирана.", "success");
     } catch {
-      setSearchOutcome([]);
-      showToast("Грешка при търсене в API.", "error");
+      showToast("Неуспешно копиране.", "error");
+    }
+  };
+
+  const getSearchProvider = () => {
+    const provider = getUploadProvider(uploadProvider);
+    if (!provider.search) {
+      return null;
+    }
+
+    if (
+      getMissingFields(provider, providerSettings[provider.id] ?? {}).length
+    ) {
+      openApiModal();
+      return null;
+    }
+
+    return provider;
+  };
+
+  // Resolves to null for failed requests and for ones a newer search replaced.
+  const fetchSearchPage = async (
+    provider: UploadProviderDefinition,
+    query: string,
+    filters: SearchFilters,
+    cursor: string | null,
+    requestId: number,
+  ) => {
+    const isCurrent = () => requestId === searchRequestRef.current;
+    setIsSearching(true);
+    try {
+      const page =
+        (await provider.search?.(query, providerSettings[provider.id] ?? {}, {
+          filters,
+          cursor,
+          limit: SEARCH_PAGE_SIZE,
+        })) ?? null;
+      return isCurrent() ? page : null;
+    } catch (error) {
+      recordApiError(error, "search", provider.id);
+      if (isCurrent()) {
+        const { message, hint } = describeApiError(error);
+        showToast(`Грешка при търсене: ${message} ${hint}`, "error");
+      }
+      return null;
     } finally {
-      setIsSearching(false);
+      if (isCurrent()) {
+        setIsSearching(false);
+      }
+    }
+  };
+
+  const handleApiSearch = async (filters = searchFilters) => {
+    const query = searchQuery.trim();
+    if (!query && !hasSearchFilters(filters)) {
+      showToast("Въведи текст или филтър за търсене.", "info");
+      return;
+    }
+
+    const provider = getSearchProvider();
+    if (!provider) {
+      return;
+    }
+
+    searchRequestRef.current += 1;
+    const requestId = searchRequestRef.current;
+    const page = await fetchSearchPage(
+      provider,
+      query,
+      filters,
+      null,
+      requestId,
+    );
+    if (requestId !== searchRequestRef.current) {
+      return;
+    }
+
+    setHasSearched(true);
+    setSearchPages(page ? toSearchPages(page) : []);
+    setSearchNext(
+      page?.nextCursor ? { query, filters, cursor: page.nextCursor } : null,
+    );
+    setSearchTotal(page?.total ?? null);
+    setCurrentSearchPage(1);
+    if (!page) {
+      return;
+    }
+
+    const count = page.total ?? page.items.length;
+    showToast(
+      count
+        ? `Намерени ${count}${page.total === null && page.nextCursor ? "+" : ""} файла.`
+        : "Няма съвпадения за това търсене.",
+      count ? "success" : "info",
+    );
+  };
+
+  const handleSearchPageNext = async () => {
+    if (currentSearchPage < searchPages.length) {
+      setCurrentSearchPage((prev) => prev + 1);
+      return;
+    }
+
+    const provider = searchNext && !isSearching ? getSearchProvider() : null;
+    if (!provider || !searchNext) {
+      return;
+    }
+
+    const requestId = searchRequestRef.current;
+    const page = await fetchSearchPage(
+      provider,
+      searchNext.query,
+      searchNext.filters,
+      searchNext.cursor,
+      requestId,
+    );
+    if (!page) {
+      return;
+    }
+
+    setSearchPages((prev) => [...prev, ...toSearchPages(page)]);
+    setSearchNext(
+      page.nextCursor ? { ...searchNext, cursor: page.nextCursor } : null,
+    );
+    setSearchTotal(page.total);
+    setCurrentSearchPage(searchPages.length + 1);
+  };
+
+  const updateSearchFilters = (patch: Partial<SearchFilters>) => {
+    const next = { ...searchFilters, ...patch };
+    setSearchFilters(next);
+    // Re-sorting has to go back to the server; other filters wait for Търси.
+    if (hasSearched && patch.sort) {
+      void handleApiSearch(next);
     }
   };
 
   const handleResetSearch = () => {
+    searchRequestRef.current += 1;
+    setIsSearching(false);
     setSearchQuery("");
+    setSearchFilters(EMPTY_SEARCH_FILTERS);
     setHasSearched(false);
-    setSearchResults([]);
+    setSearchPages([]);
+    setSearchNext(null);
+    setSearchTotal(null);
     setCurrentSearchPage(1);
   };
 
@@ -387,6 +1301,241 @@ function App() {
     setPreviewUpload(null);
   };
 
+  const saveToLibrary = async (
+    state: PersistedState,
+    blob: Blob,
+    uploadUrl?: string | null,
+  ): Promise<string | null> => {
+    try {
+      const id = reportId ?? createReportId();
+      const existing = libraryReports.find((item) => item.id === id);
+      const now = Date.now();
+      const entry: LibraryReport = {
+        id,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        state: { ...state, reportId: id },
+        thumbnail: await createThumbnailDataUrl(blob),
+        uploadUrl: uploadUrl ?? existing?.uploadUrl ?? null,
+      };
+
+      await putReport(entry);
+      setReportId(id);
+      setLibraryReports((prev) => [
+        entry,
+        ...prev.filter((item) => item.id !== id),
+      ]);
+
+      const vehicle = toVehicleProfile(data);
+      if (vehicle) {
+        await putVehicle(vehicle);
+        setVehicles((prev) =>
+          [
+            ...prev.filter((item) => item.plate !== vehicle.plate),
+            vehicle,
+          ].sort((a, b) => a.plate.localeCompare(b.plate)),
+        );
+      }
+
+      return id;
+    } catch {
+      showToast("Докладът не е записан в библиотеката.", "error");
+      return null;
+    }
+  };
+
+  const recordLog = async (
+    action: LogAction,
+    state: PersistedState,
+    url: string | null = null,
+  ): Promise<string | null> => {
+    const entry = createLogEntry({
+      action,
+      operator: state.data.operator.trim(),
+      plate: state.data.plate.trim(),
+      model: state.data.model.trim(),
+      reportNumber: state.reportNumber,
+      whp: peaks.whp,
+      wtq: peaks.wtq,
+      psi: peaks.psi,
+      rpm: peaks.rpm,
+      url,
+    });
+
+    try {
+      await putLogEntry(entry);
+      setLogEntries((prev) => [entry, ...prev]);
+      return entry.id;
+    } catch {
+      return null;
+    }
+  };
+
+  const exportLog = (
+    entries: OperatorLogEntry[],
+    filters: OperatorLogFilters,
+  ) => {
+    downloadBlob(
+      new Blob([buildLogCsv(entries)], { type: "text/csv;charset=utf-8" }),
+      `faka-dyno-log-${filters.dateFrom || "all"}-${filters.dateTo || "all"}.csv`,
+    );
+    showToast(`Експортирани ${entries.length} записа.`, "success");
+  };
+
+  const handleQueuedUploadDone = async (item: QueuedUpload, url: string) => {
+    if (item.logId && url) {
+      try {
+        const entry = await setLogEntryUrl(item.logId, url);
+        if (entry) {
+          setLogEntries((prev) =>
+            prev.map((current) => (current.id === entry.id ? entry : current)),
+          );
+        }
+      } catch {
+        // Missing log entries do not block the upload result.
+      }
+    }
+
+    if (item.reportId && url) {
+      try {
+        const report = await getReport(item.reportId);
+        if (report) {
+          const updated = { ...report, uploadUrl: url };
+          await putReport(updated);
+          setLibraryReports((prev) =>
+            prev.map((entry) => (entry.id === updated.id ? updated : entry)),
+          );
+        }
+      } catch {
+        // The upload itself succeeded; the library link is best effort.
+      }
+    }
+
+    if (!url) {
+      showToast(
+        `${item.fileName} е качен от опашката (липсва URL в отговора).`,
+        "info",
+      );
+      return;
+    }
+
+    const copied = await copyUrlForEmbedding(url);
+    showToast(
+      copied
+        ? `${item.fileName} е качен от опашката, URL е копиран.`
+        : `${item.fileName} е качен от опашката: ${url}`,
+      "success",
+    );
+  };
+
+  const uploadQueue = useUploadQueue({
+    getSettings: (provider) => providerSettings[provider] ?? {},
+    timeoutMs: uploadTimeout * 1000,
+    onUploaded: (item, url) => void handleQueuedUploadDone(item, url),
+    onFailed: (item, error) => recordApiError(error, "queue", item.provider),
+  });
+
+  const queueUpload = async (params: {
+    provider: UploadProviderId;
+    details: UploadReportDetails;
+    state: PersistedState;
+    blob: Blob;
+    uploadBlob: Blob;
+    fileName: string;
+    reason: string | null;
+    notice?: string;
+    retryAfterMs?: number;
+  }) => {
+    const libraryId = await saveToLibrary(params.state, params.blob);
+    const logId = await recordLog("upload", params.state);
+    try {
+      await uploadQueue.enqueue({
+        provider: params.provider,
+        fileName: params.fileName,
+        blob: params.uploadBlob,
+        reportId: libraryId,
+        logId,
+        details: params.details,
+        lastError: params.reason,
+        retryAfterMs: params.retryAfterMs,
+      });
+      showToast(
+        params.notice ?? "Upload неуспешен, файлът е в опашката за качване.",
+        "info",
+      );
+    } catch {
+      downloadBlob(params.uploadBlob, params.fileName);
+      showToast("Upload неуспешен, файлът е изтеглен локално.", "info");
+    }
+  };
+
+  const openLibraryReport = (report: LibraryReport) => {
+    history.mark(OPEN_REPORT_LABEL);
+    applyReportState(
+      toPersistedState({ ...report.state, reportId: report.id }, defaults),
+    );
+    showToast(
+      `Отворен доклад ${report.state.data.plate || report.id}.`,
+      "info",
+    );
+  };
+
+  const duplicateLibraryReport = async (report: LibraryReport) => {
+    const id = createReportId();
+    const now = Date.now();
+    const copy: LibraryReport = {
+      ...report,
+      id,
+      createdAt: now,
+      updatedAt: now,
+      state: { ...report.state, reportId: id, reportNumber: null },
+      uploadUrl: null,
+    };
+
+    try {
+      await putReport(copy);
+      setLibraryReports((prev) => [copy, ...prev]);
+      showToast("Докладът е дублиран.", "success");
+    } catch {
+      showToast("Неуспешно дублиране на доклада.", "error");
+    }
+  };
+
+  const removeLibraryReport = async (report: LibraryReport) => {
+    try {
+      await deleteReport(report.id);
+      setLibraryReports((prev) => prev.filter((item) => item.id !== report.id));
+      if (report.id === reportId) {
+        setReportId(null);
+      }
+    } catch {
+      showToast("Неуспешно изтриване на доклада.", "error");
+    }
+  };
+
+  const fillFromVehicle = (vehicle: VehicleProfile) => {
+    history.mark("Попълване от гаража");
+    setData((prev) => ({
+      ...prev,
+      model: vehicle.model,
+      engine: vehicle.engine,
+      drivetrain: vehicle.drivetrain,
+      owner: vehicle.owner,
+    }));
+    showToast(`Попълнени данни за ${vehicle.plate}.`, "success");
+  };
+
+  const removeVehicle = async (vehicle: VehicleProfile) => {
+    try {
+      await deleteVehicle(vehicle.plate);
+      setVehicles((prev) =>
+        prev.filter((item) => item.plate !== vehicle.plate),
+      );
+    } catch {
+      showToast("Неуспешно изтриване от гаража.", "error");
+    }
+  };
+
   const handleDownload = async () => {
     if (isDownloading) {
       return;
@@ -394,16 +1543,24 @@ function App() {
 
     setIsDownloading(true);
     try {
-      const blob = await getBestCurrentCaptureBlob();
+      const state = finalizeReport();
+      const blob = await getBestCurrentCaptureBlob(state);
       if (!blob) {
         showToast("Грешка при генериране на изображение.", "error");
         return;
       }
 
-      const fileName = buildReportFileName(data.model, data.plate);
+      const fileName = buildReportFileName(
+        data.model,
+        data.plate,
+        unitSystem,
+        state.reportNumber,
+      );
 
       downloadBlob(blob, fileName);
       showToast("Изображението е изтеглено.", "success");
+      await saveToLibrary(state, blob);
+      await recordLog("download", state);
     } catch {
       showToast("Грешка при генериране на изображение.", "error");
     } finally {
@@ -411,18 +1568,25 @@ function App() {
     }
   };
 
-  const renderCurrentPreviewBlob = (scale: number): Promise<Blob | null> =>
+  const renderCurrentPreviewBlob = (
+    scale: number,
+    state: PersistedState,
+  ): Promise<Blob | null> =>
     renderPreviewBlob({
       previewElement: previewRef.current,
       exportWidth: EXPORT_WIDTH,
       scale,
+      reportData: serializeReportDocument(createCurrentReportDocument(state)),
     });
 
-  const getBestCurrentCaptureBlob = (): Promise<Blob | null> =>
+  const getBestCurrentCaptureBlob = (
+    state: PersistedState,
+  ): Promise<Blob | null> =>
     getBestCaptureBlob({
       previewElement: previewRef.current,
       exportWidth: EXPORT_WIDTH,
       preferredScales: [4, 3],
+      reportData: serializeReportDocument(createCurrentReportDocument(state)),
     });
 
   const handleCopy = async () => {
@@ -431,6 +1595,7 @@ function App() {
     }
 
     setIsCopying(true);
+    const state = finalizeReport();
     const clipboard = navigator?.clipboard;
     const ClipboardCtor = window?.ClipboardItem as
       | typeof ClipboardItem
@@ -439,10 +1604,12 @@ function App() {
     try {
       try {
         if (clipboard?.write && ClipboardCtor) {
-          const blob = await getBestCurrentCaptureBlob();
+          const blob = await getBestCurrentCaptureBlob(state);
           if (blob) {
             await clipboard.write([new ClipboardCtor({ "image/png": blob })]);
             showToast("Изображението е копирано.", "success");
+            await saveToLibrary(state, blob);
+            await recordLog("copy", state);
             return;
           }
         }
@@ -452,18 +1619,20 @@ function App() {
 
       try {
         if (clipboard?.writeText) {
-          await clipboard.writeText(summary);
+          await clipboard.writeText(buildSummary(state.reportNumber));
           showToast("Копирани са текстовите данни.", "info");
+          await recordLog("copy", state);
           return;
         }
       } catch {
         // Final fallback below
       }
 
-      const blob = await renderCurrentPreviewBlob(3);
+      const blob = await renderCurrentPreviewBlob(3, state);
       if (isValidImageBlob(blob)) {
         downloadBlob(blob, "faka-dyno-copy-fallback.png");
         showToast("Clipboard е блокиран, изтеглен е fallback файл.", "info");
+        await recordLog("download", state);
         return;
       }
 
@@ -475,7 +1644,20 @@ function App() {
 
   const openApiModal = () => {
     setProviderDraft(uploadProvider);
-    setApiKeyDraft("");
+    setEditingProviderDraft(uploadProvider);
+    setProviderSettingsDraft(getSettingsDrafts());
+    setUploadTimeoutDraft(String(uploadTimeout));
+    setUnitSystemDraft(unitSystem);
+    setLossDrafts(
+      Object.fromEntries(
+        DRIVETRAIN_TYPES.map((type) => [type, String(drivetrainLosses[type])]),
+      ),
+    );
+    setStartRpmDraft(String(axisSettings.startRpm));
+    setSplitAxesDraft(axisSettings.splitAxes);
+    setLockScaleDraft(axisSettings.lock !== null);
+    setNumberFormatDraft(reportNumberFormat);
+    setNextNumberDraft(String(getNextSequence(reportNumberFormat)));
     setIsApiModalOpen(true);
   };
 
@@ -484,75 +1666,209 @@ function App() {
   };
 
   const saveApiKey = () => {
-    setUploadProvider(providerDraft);
-    setStoredValue(STORAGE_KEYS.uploadProvider, providerDraft);
-
-    const nextKey = apiKeyDraft.trim();
-    if (!nextKey) {
-      setIsApiModalOpen(false);
-      showToast("Настройките са запазени.", "success");
+    const nextFormat = numberFormatDraft.trim();
+    if (!isValidReportNumberFormat(nextFormat)) {
+      showToast("Форматът на номера трябва да съдържа {NNNNN}.", "error");
       return;
     }
 
-    if (providerDraft === UPLOAD_PROVIDERS.imgbb) {
-      setImgbbApiKey(nextKey);
-      setStoredValue(STORAGE_KEYS.imgbbApiKey, nextKey);
-    } else {
-      setMainApiKey(nextKey);
-      setStoredValue(STORAGE_KEYS.apiKey, nextKey);
+    const nextProviderSettings = { ...providerSettings };
+    let secretChanged = false;
+    for (const provider of UPLOAD_PROVIDERS) {
+      const draft = providerSettingsDraft[provider.id] ?? {};
+      const nextSettings: ProviderSettings = {
+        ...providerSettings[provider.id],
+      };
+      provider.fields.forEach((field) => {
+        const value = (draft[field.key] ?? "").trim();
+        if (field.secret && !value) {
+          return;
+        }
+
+        secretChanged ||= Boolean(field.secret);
+        nextSettings[field.key] = value;
+      });
+
+      const settingsError = getSettingsError(provider, nextSettings);
+      if (settingsError) {
+        setEditingProviderDraft(provider.id);
+        showToast(
+          `Невалидни настройки за ${provider.label}: ${settingsError}`,
+          "error",
+        );
+        return;
+      }
+
+      nextProviderSettings[provider.id] = nextSettings;
+    }
+
+    setReportNumberFormat(nextFormat);
+    const saved = [setStoredValue(STORAGE_KEYS.reportNumberFormat, nextFormat)];
+    const nextSequence = Number(nextNumberDraft);
+    if (
+      Number.isInteger(nextSequence) &&
+      nextSequence >= 1 &&
+      nextSequence !== getNextSequence(nextFormat)
+    ) {
+      setNextSequence(nextFormat, nextSequence);
     }
 
+    setUploadProvider(providerDraft);
+    setUploadTarget(null);
+    saved.push(setStoredValue(STORAGE_KEYS.uploadProvider, providerDraft));
+    const nextTimeout = parseUploadTimeout(uploadTimeoutDraft);
+    setUploadTimeout(nextTimeout);
+    saved.push(setStoredValue(STORAGE_KEYS.uploadTimeout, String(nextTimeout)));
+    setUnitSystem(unitSystemDraft);
+    saved.push(setStoredValue(STORAGE_KEYS.unitSystem, unitSystemDraft));
+
+    const nextLosses = parseDrivetrainLosses(JSON.stringify(lossDrafts));
+    setDrivetrainLosses(nextLosses);
+    saved.push(
+      setStoredValue(STORAGE_KEYS.drivetrainLosses, JSON.stringify(nextLosses)),
+    );
+
+    const nextAxes: AxisSettings = {
+      startRpm: parseStartRpm(startRpmDraft),
+      splitAxes: splitAxesDraft,
+      lock: lockScaleDraft
+        ? (axisSettings.lock ??
+          createAxisLock(
+            graphRuns.length
+              ? graphRuns.flatMap((item) => item.samples)
+              : annotationSource,
+          ))
+        : null,
+    };
+    setAxisSettings(nextAxes);
+    saved.push(
+      setStoredValue(STORAGE_KEYS.graphAxes, JSON.stringify(nextAxes)),
+    );
+
+    setProviderSettings(nextProviderSettings);
+    saved.push(setStoredProviderSettings(nextProviderSettings));
+
     setIsApiModalOpen(false);
-    showToast("API ключът е запазен.", "success");
-  };
+    if (saved.includes(false)) {
+      showToast(
+        "Настройките са приложени, но не са запазени: паметта на браузъра е пълна.",
+        "error",
+      );
+      return;
+    }
 
-  const activeDraftStoredKey =
-    providerDraft === UPLOAD_PROVIDERS.imgbb ? imgbbApiKey : mainApiKey;
+    showToast(
+      secretChanged ? "API ключът е запазен." : "Настройките са запазени.",
+      "success",
+    );
+  };
 
-  const maskedApiKeyPlaceholder = activeDraftStoredKey
-    ? maskApiKey(activeDraftStoredKey)
-    : providerDraft === UPLOAD_PROVIDERS.imgbb
-      ? "Въведи imgbb API key"
-      : "Постави тайния сос, без него няма upload магия";
+  // Secrets start empty; an empty input keeps the stored value.
+  const getSettingsDrafts = () =>
+    Object.fromEntries(
+      UPLOAD_PROVIDERS.map((provider) => {
+        const stored = providerSettings[provider.id] ?? {};
+        return [
+          provider.id,
+          Object.fromEntries(
+            provider.fields.map((field) => [
+              field.key,
+              field.secret ? "" : (stored[field.key] ?? ""),
+            ]),
+          ),
+        ];
+      }),
+    );
 
   const handleUpload = async () => {
     if (isUploading) {
       return;
     }
 
-    const activeApiKey =
-      uploadProvider === UPLOAD_PROVIDERS.imgbb ? imgbbApiKey : mainApiKey;
-
-    if (!activeApiKey) {
+    const provider = getUploadProvider(uploadTarget ?? uploadProvider);
+    const settings = providerSettings[provider.id] ?? {};
+    if (getMissingFields(provider, settings).length) {
       openApiModal();
       return;
     }
 
     setIsUploading(true);
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+    let progress = startUploadProgress();
+    setUploadProgress(progress);
+    const enterPhase = (phase: UploadPhase) => {
+      progress = advanceUploadPhase(progress, phase);
+      setUploadProgress(progress);
+    };
+    const wasCancelled = () => {
+      if (controller.signal.aborted) {
+        showToast("Качването е отказано.", "info");
+      }
+      return controller.signal.aborted;
+    };
 
     try {
-      const blob = await getBestCurrentCaptureBlob();
+      const state = finalizeReport();
+      const blob = await getBestCurrentCaptureBlob(state);
+      if (wasCancelled()) {
+        return;
+      }
+
       if (!blob) {
         showToast("Грешка при подготовка на файла.", "error");
         return;
       }
 
+      enterPhase("resize");
       const uploadBlob = await prepareUploadBlob(blob, 1920);
+      if (wasCancelled()) {
+        return;
+      }
+
       if (!isValidImageBlob(uploadBlob)) {
         showToast("Грешка при оптимизация на файла.", "error");
         return;
       }
 
-      const fileName = buildReportFileName(data.model, data.plate);
+      const fileName = buildReportFileName(
+        data.model,
+        data.plate,
+        unitSystem,
+        state.reportNumber,
+      );
+      const details = buildUploadDetails(state.reportNumber);
+      enterPhase("upload");
+
+      if (!uploadQueue.online) {
+        await queueUpload({
+          provider: provider.id,
+          details,
+          state,
+          blob,
+          uploadBlob,
+          fileName,
+          reason: "Offline.",
+        });
+        return;
+      }
 
       try {
         const uploadedUrl = await uploadReportImage({
-          provider: uploadProvider,
-          activeApiKey,
+          provider,
+          settings,
           uploadBlob,
           fileName,
+          details,
+          signal: controller.signal,
+          timeoutMs: uploadTimeout * 1000,
+          onProgress: (percent) =>
+            setUploadProgress((prev) => prev && { ...prev, percent }),
         });
 
+        await saveToLibrary(state, blob, uploadedUrl || null);
+        await recordLog("upload", state, uploadedUrl || null);
+
         if (uploadedUrl) {
           const copied = await copyUrlForEmbedding(uploadedUrl);
           if (copied) {
@@ -563,11 +1879,36 @@ function App() {
         } else {
           showToast("Файлът е качен (липсва URL в отговора).", "info");
         }
-      } catch {
-        downloadBlob(uploadBlob, fileName);
-        showToast("Upload неуспешен, файлът е изтеглен локално.", "info");
+      } catch (error) {
+        if (wasCancelled()) {
+          return;
+        }
+
+        recordApiError(error, "upload", provider.id);
+        const { message, hint } = describeApiError(error);
+        if (!isRetryableError(error)) {
+          await saveToLibrary(state, blob);
+          showToast(`${message} ${hint}`, "error");
+          return;
+        }
+
+        await queueUpload({
+          provider: provider.id,
+          details,
+          state,
+          blob,
+          uploadBlob,
+          fileName,
+          reason: error instanceof Error ? error.message : null,
+          notice: `${message} Файлът е в опашката за качване. ${hint}`,
+          retryAfterMs: getRetryAfterMs(error),
+        });
       }
     } finally {
+      uploadAbortRef.current = null;
+      // The picker is for one report; the next one goes to the default again.
+      setUploadTarget(null);
+      setUploadProgress(null);
       setIsUploading(false);
     }
   };
@@ -578,19 +1919,49 @@ function App() {
     }
 
     const writeState = () => {
-      window.localStorage.setItem(
-        STORAGE_KEYS.state,
-        JSON.stringify({
-          data,
-          showHp,
-          showTq,
-        }),
-      );
+      const saved = writeStoredDrafts({
+        activeId: activeDraftId,
+        drafts: syncActiveDraft(drafts),
+      });
+      // One warning per failure streak; the save is retried on every change.
+      if (!saved && !draftsWriteFailedRef.current) {
+        showToast(
+          "Паметта на браузъра е пълна, черновите не са запазени. Експортирай или изтрий доклади.",
+          "error",
+        );
+      }
+      draftsWriteFailedRef.current = !saved;
     };
 
     const timer = window.setTimeout(writeState, 180);
     return () => window.clearTimeout(timer);
-  }, [data, showHp, showTq]);
+  }, [reportState, drafts, activeDraftId, docMeta, showToast]);
+
+  useEffect(() => {
+    const count = storedDrafts.quarantined.length;
+    if (!count) {
+      return;
+    }
+
+    showToast(
+      storedDrafts.quarantineSaved
+        ? `${count} невалидни запазени стойности са преместени в карантина (виж Настройки).`
+        : `${count} невалидни запазени стойности са премахнати, но карантината не може да се запише (паметта на браузъра е пълна).`,
+      "error",
+    );
+  }, [storedDrafts, showToast]);
+
+  useEffect(() => {
+    listReports()
+      .then(setLibraryReports)
+      .catch(() => setLibraryReports([]));
+    listVehicles()
+      .then(setVehicles)
+      .catch(() => setVehicles([]));
+    listLogEntries()
+      .then(setLogEntries)
+      .catch(() => setLogEntries([]));
+  }, []);
 
   useEffect(() => {
     if (!hasStarted) {
@@ -601,31 +1972,35 @@ function App() {
   }, [hasStarted]);
 
   useEffect(() => {
-    if (uploadProvider === UPLOAD_PROVIDERS.primary) {
+    if (getUploadProvider(uploadProvider).search) {
       return;
     }
 
+    searchRequestRef.current += 1;
     setHasSearched(false);
-    setSearchResults([]);
+    setSearchPages([]);
+    setSearchNext(null);
+    setSearchTotal(null);
   }, [uploadProvider]);
 
-  const displayedUploads = hasSearched ? searchResults : [];
+  const uploadTargets = UPLOAD_PROVIDERS.filter(
+    (provider) =>
+      provider.id === uploadProvider ||
+      !getMissingFields(provider, providerSettings[provider.id] ?? {}).length,
+  );
+  const displayedUploads = hasSearched ? searchPages.flat() : [];
+  const safeCurrentPage = Math.min(
+    currentSearchPage,
+    Math.max(1, searchPages.length),
+  );
+  const pagedUploads = searchPages[safeCurrentPage - 1] ?? [];
   const totalSearchPages = Math.max(
     1,
-    Math.ceil(displayedUploads.length / SEARCH_PAGE_SIZE),
-  );
-  const safeCurrentPage = Math.min(currentSearchPage, totalSearchPages);
-  const pagedUploads = displayedUploads.slice(
-    (safeCurrentPage - 1) * SEARCH_PAGE_SIZE,
-    safeCurrentPage * SEARCH_PAGE_SIZE,
+    searchPages.length,
+    searchTotal !== null ? Math.ceil(searchTotal / SEARCH_PAGE_SIZE) : 0,
   );
-
-  useEffect(() => {
-    setCurrentSearchPage((prev) => {
-      const clamped = Math.max(1, Math.min(prev, totalSearchPages));
-      return clamped;
-    });
-  }, [totalSearchPages]);
+  const hasNextSearchPage =
+    safeCurrentPage < searchPages.length || Boolean(searchNext);
 
   useEffect(() => {
     if (!isApiModalOpen || !apiModalRef.current) {
@@ -698,6 +2073,31 @@ function App() {
     };
   }, [previewUpload]);
 
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (
+        !(event.ctrlKey || event.metaKey) ||
+        isTextEntryTarget(event.target as HTMLElement | null)
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        history.undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        history.redo();
+      }
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [history.undo, history.redo]);
+
   if (!hasStarted) {
     return (
       <main className="splash-screen">
@@ -725,23 +2125,37 @@ function App() {
           <div className="form-content">
             <div className="section-block sliders">
               <h2>ДИНО ДАННИ</h2>
-              {sliderConfig.map((item) => (
+              {displaySliders.map((item) => (
                 <label className="slider-row" key={item.key}>
                   <span>{item.label}</span>
                   <input
                     type="range"
+                    disabled={isRunDriven(item.key)}
                     min={item.min}
                     max={item.max}
                     step={item.step}
-                    value={data[item.key]}
+                    value={toDisplayMetric(
+                      item.key,
+                      metricValues[item.key],
+                      unitSystem,
+                    )}
                     onChange={updateMetric(item.key)}
+                    onPointerUp={history.endGroup}
+                    onPointerCancel={history.endGroup}
+                    onKeyUp={history.endGroup}
+                    onBlur={history.endGroup}
                     style={
                       {
                         "--progress": `${Math.max(
                           0,
                           Math.min(
                             100,
-                            ((data[item.key] - item.min) /
+                            ((toDisplayMetric(
+                              item.key,
+                              metricValues[item.key],
+                              unitSystem,
+                            ) -
+                              item.min) /
                               (item.max - item.min || 1)) *
                               100,
                           ),
@@ -752,201 +2166,511 @@ function App() {
                   <input
                     className="slider-value-input"
                     type="text"
-                    value={formatMetricValue(item.key, data[item.key])}
+                    disabled={isRunDriven(item.key)}
+                    value={formatDisplayMetric(
+                      item.key,
+                      metricValues[item.key],
+                      unitSystem,
+                    )}
                     onChange={updateMetricInput(item)}
+                    onBlur={history.endGroup}
                   />
                 </label>
               ))}
             </div>
 
+            <EngineProfilePanel
+              value={curveProfile}
+              hasRuns={runs.length > 0}
+              onChange={(next, field) => {
+                history.mark(
+                  `Профил ${field}`,
+                  field === "profile" ? null : `profile-${field}`,
+                );
+                setCurveProfile(next);
+              }}
+              onChangeEnd={history.endGroup}
+            />
+
+            <RunImportPanel
+              runs={runs}
+              baselineRunId={baselineRun?.id ?? null}
+              selectedRunId={selectedRun?.id ?? null}
+              unitSystem={unitSystem}
+              baroKpa={baroKpa}
+              onAdd={handleRunImported}
+              onRename={(id, name) => updateRun(id, { name })}
+              onRemove={removeRun}
+              onSetBaseline={setBaselineRunId}
+              onSelect={setSelectedRunId}
+              onError={(message) =>
+                showToast(`Грешка при импорт на CSV: ${message}`, "error")
+              }
+            />
+
+            {uploadTargets.length > 1 && (
+              <div className="section-block upload-target">
+                <h2>КАЧВАНЕ</h2>
+                <select
+                  value={uploadTarget ?? uploadProvider}
+                  title="Къде да се качи следващият доклад"
+                  onChange={(event) => setUploadTarget(event.target.value)}
+                >
+                  {uploadTargets.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <SearchPanel
               plate={data.plate}
-              uploadProvider={uploadProvider}
+              supportsSearch={Boolean(getUploadProvider(uploadProvider).search)}
               isSearching={isSearching}
               searchQuery={searchQuery}
               setSearchQuery={setSearchQuery}
-              onSearch={handleApiSearch}
+              onSearch={() => void handleApiSearch()}
               onResetSearch={handleResetSearch}
+              filters={searchFilters}
+              onFiltersChange={updateSearchFilters}
               displayedUploads={displayedUploads}
               pagedUploads={pagedUploads}
               hasSearched={hasSearched}
               safeCurrentPage={safeCurrentPage}
               totalSearchPages={totalSearchPages}
+              hasNextPage={hasNextSearchPage}
               onPagePrev={() =>
                 setCurrentSearchPage((prev) => Math.max(1, prev - 1))
               }
-              onPageNext={() =>
-                setCurrentSearchPage((prev) =>
-                  Math.min(totalSearchPages, prev + 1),
-                )
-              }
+              onPageNext={() => void handleSearchPageNext()}
               onOpenPreview={openSearchPreview}
+              onLoadReport={loadReportFromUpload}
               formatRecentUploadTime={formatRecentUploadTime}
             />
+
+            <UploadQueuePanel
+              items={uploadQueue.items}
+              activeId={uploadQueue.activeId}
+              online={uploadQueue.online}
+              onRetry={(id) => void uploadQueue.retry(id)}
+              onCancel={(id) => void uploadQueue.cancel(id)}
+              formatTime={formatRecentUploadTime}
+            />
+
+            <LibraryPanel
+              reports={libraryReports}
+              activeReportId={reportId}
+              onOpen={openLibraryReport}
+              onDuplicate={duplicateLibraryReport}
+              onDelete={removeLibraryReport}
+              formatTime={formatRecentUploadTime}
+            />
+
+            <ShiftLogPanel
+              entries={logEntries}
+              unitSystem={unitSystem}
+              onExport={exportLog}
+              formatTime={formatRecentUploadTime}
+            />
+
+            <GaragePanel
+              vehicles={vehicles}
+              reports={libraryReports}
+              data={data}
+              unitSystem={unitSystem}
+              onFill={fillFromVehicle}
+              onOpenReport={openLibraryReport}
+              onDelete={removeVehicle}
+              formatTime={formatRecentUploadTime}
+            />
           </div>
         </aside>
 
-        <section className="preview-panel" id="report-preview" ref={previewRef}>
-          <header className="preview-header">
-            <div>
-              <p className="shop-name">{SHOP_NAME}</p>
-              <h3>
-                <InlineEditable
-                  value={vehicleName}
-                  onCommit={(next) => applyInlineUpdate("model", next)}
-                />
-              </h3>
-              <div className="vehicle-submeta">
-                <span>Създаден: {docMeta.createdAt}</span>
-                <span>ID: {docMeta.unixId}</span>
-                <span>
-                  Оператор:{" "}
+        <div
+          className="preview-column"
+          onDragOver={(event) => {
+            if (event.dataTransfer.types.includes("Files")) {
+              event.preventDefault();
+            }
+          }}
+          onDrop={handleImageDrop}
+        >
+          <DraftTabs
+            drafts={syncActiveDraft(drafts)}
+            activeId={activeDraftId}
+            onSelect={switchDraft}
+            onAdd={addDraft}
+            onClose={closeDraft}
+          />
+          <section
+            className="preview-panel"
+            id="report-preview"
+            ref={previewRef}
+          >
+            <header className="preview-header">
+              <div>
+                <p className="shop-name">{SHOP_NAME}</p>
+                <h3>
                   <InlineEditable
-                    value={data.operator}
-                    onCommit={(next) => applyInlineUpdate("operator", next)}
+                    value={vehicleName}
+                    onCommit={(next) => applyInlineUpdate("model", next)}
                   />
+                </h3>
+                <div className="vehicle-submeta">
+                  <span>Създаден: {docMeta.createdAt}</span>
+                  <span>
+                    {reportNumber
+                      ? `№ ${reportNumber}`
+                      : `ID: ${docMeta.docId}`}
+                  </span>
+                  <span>
+                    Оператор:{" "}
+                    <InlineEditable
+                      value={data.operator}
+                      onCommit={(next) => applyInlineUpdate("operator", next)}
+                    />
+                  </span>
+                  <span>
+                    Собственик:{" "}
+                    <InlineEditable
+                      value={data.owner}
+                      onCommit={(next) => applyInlineUpdate("owner", next)}
+                    />
+                  </span>
+                </div>
+              </div>
+              <div className="brand-mark" aria-label="FAKA logo">
+                <img src={logo} alt="FAKA Performance" />
+              </div>
+            </header>
+
+            <div className="stat-row">
+              <article>
+                <p>МОЩНОСТ НА КОЛЕЛА</p>
+                <h4>
+                  {displayPower} {unitLabels.power}
+                  {displayDeltas && (
+                    <span
+                      className={
+                        displayDeltas.power < 0
+                          ? "stat-delta is-negative"
+                          : "stat-delta"
+                      }
+                    >
+                      {formatDelta(displayDeltas.power)} {unitLabels.power}
+                    </span>
+                  )}
+                </h4>
+                <span className="stat-corrected">
+                  Коригирано: {correctedPower} {unitLabels.power}
                 </span>
-                <span>
-                  Собственик:{" "}
-                  <InlineEditable
-                    value={data.owner}
-                    onCommit={(next) => applyInlineUpdate("owner", next)}
-                  />
+                <span className="stat-crank">
+                  Колянов вал ≈ {crankPower} {unitLabels.crankPower} (оценка)
                 </span>
-              </div>
-            </div>
-            <div className="brand-mark" aria-label="FAKA logo">
-              <img src={logo} alt="FAKA Performance" />
+              </article>
+              <article>
+                <p>МАКС ВЪРТЯЩ МОМЕНТ</p>
+                <h4>
+                  {displayTorque} {unitLabels.torque}
+                  {displayDeltas && (
+                    <span
+                      className={
+                        displayDeltas.torque < 0
+                          ? "stat-delta is-negative"
+                          : "stat-delta"
+                      }
+                    >
+                      {formatDelta(displayDeltas.torque)} {unitLabels.torque}
+                    </span>
+                  )}
+                </h4>
+                <span className="stat-corrected">
+                  Коригирано: {correctedTorque} {unitLabels.torque}
+                </span>
+                <span className="stat-crank">
+                  Колянов вал ≈ {crankTorque} {unitLabels.crankTorque} (оценка)
+                </span>
+              </article>
+              <article>
+                <p>BOOST / AFR</p>
+                <h4>
+                  {displayBoost} {unitLabels.boost} / {peaks.afr.toFixed(1)} AFR
+                </h4>
+              </article>
             </div>
-          </header>
-
-          <div className="stat-row">
-            <article>
-              <p>МОЩНОСТ НА КОЛЕЛА</p>
-              <h4>{data.whp} WHP</h4>
-            </article>
-            <article>
-              <p>МАКС ВЪРТЯЩ МОМЕНТ</p>
-              <h4>{data.wtq} WTQ</h4>
-            </article>
-            <article>
-              <p>BOOST / AFR</p>
-              <h4>
-                {data.psi.toFixed(1)} psi / {data.afr.toFixed(1)} AFR
-              </h4>
-            </article>
-          </div>
 
-          <div className="graph-shell">
-            <div className="graph-main">
-              <DynoGraph
-                whp={data.whp}
-                wtq={data.wtq}
-                rpm={data.rpm}
-                showHp={showHp}
-                showTq={showTq}
-              />
-              <div className="graph-legend-inside">
-                <button
-                  type="button"
-                  className={showHp ? "is-on" : "is-off"}
-                  onClick={() => setShowHp((prev) => !prev)}
-                >
-                  <i className="legend-hp" /> HP линия
-                </button>
-                <button
-                  type="button"
-                  className={showTq ? "is-on" : "is-off"}
-                  onClick={() => setShowTq((prev) => !prev)}
-                >
-                  <i className="legend-tq" /> TQ линия
-                </button>
+            <div className="graph-shell">
+              <div className="graph-main">
+                <DynoGraph
+                  whp={data.whp}
+                  wtq={data.wtq}
+                  rpm={data.rpm}
+                  psi={data.psi}
+                  afr={data.afr}
+                  curve={curveProfile}
+                  runs={graphRuns}
+                  allRunsHidden={runs.length > 0 && graphRuns.length === 0}
+                  annotationSamples={annotationSamples}
+                  channelSamples={selectedRun?.samples}
+                  showHp={showHp}
+                  showTq={showTq}
+                  showBoost={showBoost}
+                  showAfr={showAfr}
+                  showPeaks={showPeaks}
+                  showPowerband={showPowerband}
+                  showArea={showArea}
+                  unitSystem={unitSystem}
+                  axes={axisSettings}
+                  drivetrainLoss={drivetrainLoss.percent}
+                  pinnedRpm={pinnedRpm}
+                  onPinnedRpmChange={changePinnedRpm}
+                />
+                <div className="graph-legend-inside">
+                  <button
+                    type="button"
+                    className={showHp ? "is-on" : "is-off"}
+                    onClick={() => toggleLayer("HP линия", setShowHp)}
+                  >
+                    <i className="legend-hp" /> HP линия
+                  </button>
+                  <button
+                    type="button"
+                    className={showTq ? "is-on" : "is-off"}
+                    onClick={() => toggleLayer("TQ линия", setShowTq)}
+                  >
+                    <i className="legend-tq" /> TQ линия
+                  </button>
+                  <button
+                    type="button"
+                    className={showBoost ? "is-on" : "is-off"}
+                    onClick={() => toggleLayer("Boost", setShowBoost)}
+                  >
+                    <i className="legend-boost" /> Boost
+                  </button>
+                  <button
+                    type="button"
+                    className={showAfr ? "is-on" : "is-off"}
+                    onClick={() => toggleLayer("AFR", setShowAfr)}
+                  >
+                    <i className="legend-afr" /> AFR
+                  </button>
+                  <button
+                    type="button"
+                    className={showPeaks ? "is-on" : "is-off"}
+                    onClick={() => toggleLayer("Пикове", setShowPeaks)}
+                  >
+                    <i className="legend-peaks" /> Пикове
+                  </button>
+                  <button
+                    type="button"
+                    className={showPowerband ? "is-on" : "is-off"}
+                    onClick={() => toggleLayer("Powerband", setShowPowerband)}
+                  >
+                    <i className="legend-powerband" /> Powerband
+                  </button>
+                  <button
+                    type="button"
+                    className={showArea ? "is-on" : "is-off"}
+                    onClick={() => toggleLayer("Площ", setShowArea)}
+                  >
+                    <i className="legend-area" /> Площ
+                  </button>
+                  {runs.length > 1 &&
+                    runs.map((item, index) => (
+                      <button
+                        key={item.id}
+                        type="button"
+                        className={item.hidden ? "is-off" : "is-on"}
+                        onClick={() => {
+                          history.mark(
+                            item.hidden ? "Показан run" : "Скрит run",
+                          );
+                          updateRun(item.id, { hidden: !item.hidden });
+                        }}
+                      >
+                        <i
+                          className="legend-run"
+                          style={{
+                            borderColor: getRunStyle(item.styleIndex).hp,
+                            borderStyle: getRunStyle(item.styleIndex).dash
+                              ? "dashed"
+                              : "solid",
+                          }}
+                        />{" "}
+                        {item.name || `Run ${index + 1}`}
+                      </button>
+                    ))}
+                </div>
               </div>
+              <RpmGauge rpm={peaks.rpm} />
             </div>
-            <RpmGauge rpm={data.rpm} />
-          </div>
-
-          <div className="preview-meta">
-            <p>
-              <span>Двигател</span>
-              <strong>
-                <InlineEditable
-                  value={data.engine}
-                  onCommit={(next) => applyInlineUpdate("engine", next)}
-                />
-              </strong>
-            </p>
-            <p>
-              <span>Рег. номер</span>
-              <strong>
-                <InlineEditable
-                  value={data.plate}
-                  onCommit={(next) => applyInlineUpdate("plate", next)}
-                />
-              </strong>
-            </p>
-            <p>
-              <span>Задвижване</span>
-              <strong>
-                <InlineEditableSelect
-                  value={data.drivetrain}
-                  options={["AWD", "RWD", "FWD"]}
-                  onCommit={(next) => applyInlineUpdate("drivetrain", next)}
-                />
-              </strong>
-            </p>
-          </div>
 
-          <footer className="doc-footer">
-            <div className="tech-grid">
-              <div>
-                <span>Външна темп</span>
+            <div className="preview-meta">
+              <p>
+                <span>Двигател</span>
                 <strong>
                   <InlineEditable
-                    value={data.extTemp}
-                    onCommit={(next) => applyInlineUpdate("extTemp", next)}
+                    value={data.engine}
+                    onCommit={(next) => applyInlineUpdate("engine", next)}
                   />
                 </strong>
-              </div>
-              <div>
-                <span>Влажност</span>
+              </p>
+              <p>
+                <span>Рег. номер</span>
                 <strong>
                   <InlineEditable
-                    value={data.humidity}
-                    onCommit={(next) => applyInlineUpdate("humidity", next)}
+                    value={data.plate}
+                    suggestions={vehicles.map((vehicle) => vehicle.plate)}
+                    onCommit={(next) => {
+                      applyInlineUpdate("plate", next);
+                      if (findVehicle(vehicles, next)) {
+                        showToast(
+                          "Колата е в гаража — данните могат да се попълнят.",
+                          "info",
+                        );
+                      }
+                    }}
                   />
-                  %
                 </strong>
-              </div>
-              <div>
-                <span>Кор. фактор</span>
+              </p>
+              <p>
+                <span>Задвижване</span>
+                <strong>
+                  <InlineEditableSelect
+                    value={data.drivetrain}
+                    options={DRIVETRAIN_TYPES}
+                    onCommit={(next) => applyInlineUpdate("drivetrain", next)}
+                  />
+                </strong>
+              </p>
+              <p>
+                <span>Загуби трансмисия</span>
                 <strong>
                   <InlineEditable
-                    value={data.correctionFactor}
+                    value={String(drivetrainLoss.percent)}
                     onCommit={(next) =>
-                      applyInlineUpdate("correctionFactor", next)
+                      applyInlineUpdate("drivetrainLossOverride", next)
                     }
                   />
+                  %
+                  {drivetrainLoss.isOverride && (
+                    <button
+                      type="button"
+                      className="correction-override-mark"
+                      title={`Върни стойността за ${data.drivetrain} (${defaultDrivetrainLoss}%)`}
+                      onClick={() =>
+                        applyInlineUpdate("drivetrainLossOverride", "")
+                      }
+                    >
+                      ръчно
+                    </button>
+                  )}
                 </strong>
+              </p>
+            </div>
+
+            <footer className="doc-footer">
+              <div className="tech-grid">
+                <div>
+                  <span>Външна темп</span>
+                  <strong>
+                    <InlineEditable
+                      value={data.extTemp}
+                      onCommit={(next) => applyInlineUpdate("extTemp", next)}
+                    />
+                  </strong>
+                </div>
+                <div>
+                  <span>Влажност</span>
+                  <strong>
+                    <InlineEditable
+                      value={data.humidity}
+                      onCommit={(next) => applyInlineUpdate("humidity", next)}
+                    />
+                    %
+                  </strong>
+                </div>
+                <div>
+                  <span>Налягане {unitLabels.pressure}</span>
+                  <strong>
+                    <InlineEditable
+                      value={
+                        baroHpa === null
+                          ? data.baroPressure
+                          : formatPressure(baroHpa, unitSystem)
+                      }
+                      onCommit={(next) =>
+                        applyInlineUpdate("baroPressure", next)
+                      }
+                    />
+                  </strong>
+                </div>
+                <div>
+                  <span>Стандарт</span>
+                  <strong>
+                    <InlineEditableSelect
+                      value={data.correctionStandard}
+                      options={CORRECTION_STANDARDS.map((item) => item.value)}
+                      formatOption={(value) =>
+                        getCorrectionStandardLabel(toCorrectionStandard(value))
+                      }
+                      onCommit={(next) =>
+                        applyInlineUpdate("correctionStandard", next)
+                      }
+                    />
+                  </strong>
+                </div>
+                <div>
+                  <span>Кор. фактор</span>
+                  <strong>
+                    <InlineEditable
+                      value={formatCorrectionFactor(correction.factor)}
+                      onCommit={(next) =>
+                        applyInlineUpdate("correctionFactor", next)
+                      }
+                    />
+                    {correction.isOverride && (
+                      <button
+                        type="button"
+                        className="correction-override-mark"
+                        title={
+                          correction.calculated === null
+                            ? "Ръчно въведен фактор"
+                            : `Върни изчисления фактор (${formatCorrectionFactor(correction.calculated)})`
+                        }
+                        onClick={() =>
+                          setData((prev) => ({
+                            ...prev,
+                            correctionOverride: false,
+                          }))
+                        }
+                      >
+                        ръчно
+                      </button>
+                    )}
+                  </strong>
+                </div>
               </div>
+            </footer>
+
+            <div className="mechanic-notes">
+              <p className="notes-title">Бележки на механика</p>
+              <p>
+                <InlineEditable
+                  value={data.mechanicNotes}
+                  multiline
+                  maxLength={MECHANIC_NOTES_MAX_LENGTH}
+                  className="inline-notes-display"
+                  onCommit={(next) => applyInlineUpdate("mechanicNotes", next)}
+                />
+              </p>
             </div>
-          </footer>
-
-          <div className="mechanic-notes">
-            <p className="notes-title">Бележки на механика</p>
-            <p>
-              <InlineEditable
-                value={data.mechanicNotes}
-                multiline
-                maxLength={MECHANIC_NOTES_MAX_LENGTH}
-                className="inline-notes-display"
-                onCommit={(next) => applyInlineUpdate("mechanicNotes", next)}
-              />
-            </p>
-          </div>
 
-          <div className="signature">{data.operator}</div>
-        </section>
+            <div className="signature">{data.operator}</div>
+          </section>
+        </div>
       </section>
 
       <p className="build-label">{APP_BUILD_LABEL}</p>
@@ -960,6 +2684,24 @@ function App() {
           <span>Reset</span>
           <RotateCcw aria-hidden="true" />
         </button>
+        <button
+          type="button"
+          title={history.undoLabel ? `Undo: ${history.undoLabel}` : "Undo"}
+          onClick={history.undo}
+          disabled={!history.canUndo}
+        >
+          <span>Undo</span>
+          <Undo2 aria-hidden="true" />
+        </button>
+        <button
+          type="button"
+          title={history.redoLabel ? `Redo: ${history.redoLabel}` : "Redo"}
+          onClick={history.redo}
+          disabled={!history.canRedo}
+        >
+          <span>Redo</span>
+          <Redo2 aria-hidden="true" />
+        </button>
         <button
           type="button"
           title="Download"
@@ -980,13 +2722,54 @@ function App() {
         </button>
         <button
           type="button"
-          title="Upload"
+          title={
+            uploadQueue.items.length
+              ? `Upload (${uploadQueue.items.length} в опашката)`
+              : "Upload"
+          }
           onClick={handleUpload}
           disabled={isUploading}
         >
           <span>Upload</span>
           <Upload aria-hidden="true" />
+          {uploadQueue.items.length > 0 && (
+            <i className="quick-action-badge">{uploadQueue.items.length}</i>
+          )}
+        </button>
+        <button type="button" title="Export" onClick={handleExportReport}>
+          <span>Export</span>
+          <FileDown aria-hidden="true" />
+        </button>
+        <button
+          type="button"
+          title="Import"
+          onClick={() => reportFileInputRef.current?.click()}
+        >
+          <span>Import</span>
+          <FileUp aria-hidden="true" />
         </button>
+        <input
+          ref={reportFileInputRef}
+          type="file"
+          accept={`${REPORT_FILE_EXTENSION},.json,application/json`}
+          hidden
+          onChange={handleImportReport}
+        />
+        <button
+          type="button"
+          title="Load from image"
+          onClick={() => imageFileInputRef.current?.click()}
+        >
+          <span>Load image</span>
+          <ImageDown aria-hidden="true" />
+        </button>
+        <input
+          ref={imageFileInputRef}
+          type="file"
+          accept="image/png"
+          hidden
+          onChange={handleImageFile}
+        />
       </div>
 
       {previewUpload && (
@@ -1042,37 +2825,194 @@ function App() {
           className="modal-backdrop"
           role="dialog"
           aria-modal="true"
-          aria-label="API key settings"
+          aria-label="Settings"
         >
           <div className="api-modal" ref={apiModalRef}>
-            <h3>API Настройки</h3>
+            <h3>Настройки</h3>
             <label>
-              Hosting provider
+              Hosting provider по подразбиране
               <select
                 value={providerDraft}
-                onChange={(event) => {
-                  const nextProvider = toUploadProvider(event.target.value);
-                  setProviderDraft(nextProvider);
-                  setApiKeyDraft("");
-                }}
+                onChange={(event) =>
+                  setProviderDraft(getUploadProvider(event.target.value).id)
+                }
+              >
+                {UPLOAD_PROVIDERS.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Настройки на provider
+              <select
+                value={editingProviderDraft}
+                onChange={(event) =>
+                  setEditingProviderDraft(
+                    getUploadProvider(event.target.value).id,
+                  )
+                }
               >
-                <option value={UPLOAD_PROVIDERS.primary}>
-                  FAKA Upload (main)
-                </option>
-                <option value={UPLOAD_PROVIDERS.imgbb}>imgbb (backup)</option>
+                {UPLOAD_PROVIDERS.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.label}
+                  </option>
+                ))}
               </select>
             </label>
+            {getUploadProvider(editingProviderDraft).fields.map((field) => {
+              const stored =
+                providerSettings[editingProviderDraft]?.[field.key] ?? "";
+              const inputProps = {
+                value:
+                  providerSettingsDraft[editingProviderDraft]?.[field.key] ??
+                  "",
+                placeholder:
+                  field.secret && stored
+                    ? maskApiKey(stored)
+                    : field.placeholder,
+                onChange: (
+                  event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+                ) =>
+                  setProviderSettingsDraft((prev) => ({
+                    ...prev,
+                    [editingProviderDraft]: {
+                      ...prev[editingProviderDraft],
+                      [field.key]: event.target.value,
+                    },
+                  })),
+              };
+              return (
+                <label key={`${editingProviderDraft}-${field.key}`}>
+                  {field.label}
+                  {field.multiline ? (
+                    <textarea rows={3} {...inputProps} />
+                  ) : (
+                    <input type="text" {...inputProps} />
+                  )}
+                </label>
+              );
+            })}
             <label>
-              {providerDraft === UPLOAD_PROVIDERS.imgbb
-                ? "Въведи imgbb API ключ"
-                : "Въведи FAKA API ключ"}
+              Timeout за upload (сек)
               <input
                 type="text"
-                value={apiKeyDraft}
-                onChange={(event) => setApiKeyDraft(event.target.value)}
-                placeholder={maskedApiKeyPlaceholder}
+                inputMode="numeric"
+                value={uploadTimeoutDraft}
+                onChange={(event) => setUploadTimeoutDraft(event.target.value)}
               />
             </label>
+            <label>
+              Мерни единици
+              <select
+                value={unitSystemDraft}
+                onChange={(event) =>
+                  setUnitSystemDraft(toUnitSystem(event.target.value))
+                }
+              >
+                <option value="imperial">WHP / lb-ft / psi</option>
+                <option value="metric">kW / Nm / bar</option>
+              </select>
+            </label>
+            <div className="settings-loss-grid">
+              {DRIVETRAIN_TYPES.map((type) => (
+                <label key={type}>
+                  Загуби {type} %
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={lossDrafts[type] ?? ""}
+                    onChange={(event) =>
+                      setLossDrafts((prev) => ({
+                        ...prev,
+                        [type]: event.target.value,
+                      }))
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+            <div className="settings-axes">
+              <label>
+                Начални RPM на графиката
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={startRpmDraft}
+                  onChange={(event) => setStartRpmDraft(event.target.value)}
+                />
+              </label>
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={splitAxesDraft}
+                  onChange={(event) => setSplitAxesDraft(event.target.checked)}
+                />
+                Отделни оси за мощност и въртящ момент
+              </label>
+              <label className="settings-check">
+                <input
+                  type="checkbox"
+                  checked={lockScaleDraft}
+                  onChange={(event) => setLockScaleDraft(event.target.checked)}
+                />
+                {axisSettings.lock
+                  ? `Заключена скала (${Math.round(axisSettings.lock.maxRpm)} RPM / ${formatQuantity("power", axisSettings.lock.power, unitSystem)} ${unitLabels.power} / ${formatQuantity("torque", axisSettings.lock.torque, unitSystem)} ${unitLabels.torque})`
+                  : "Заключи текущата скала за сравнение"}
+              </label>
+            </div>
+            <div className="settings-numbering">
+              <label>
+                Номерация на доклади
+                <input
+                  type="text"
+                  value={numberFormatDraft}
+                  onChange={(event) => setNumberFormatDraft(event.target.value)}
+                />
+              </label>
+              <label>
+                Следващ номер
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={nextNumberDraft}
+                  onChange={(event) => setNextNumberDraft(event.target.value)}
+                />
+              </label>
+              <p className="run-import-note">
+                {isValidReportNumberFormat(numberFormatDraft)
+                  ? `Следващ доклад: ${formatReportNumber(
+                      numberFormatDraft.trim(),
+                      Math.max(1, Math.floor(Number(nextNumberDraft)) || 1),
+                    )}`
+                  : "Използвай {YYYY}, {YY}, {MM} и {NNNNN} за поредния номер"}
+              </p>
+            </div>
+            <DiagnosticsPanel
+              entries={diagnostics}
+              onCopy={() => void copyDiagnostics()}
+              onClear={() => setDiagnostics([])}
+              formatTime={formatRecentUploadTime}
+            />
+            {quarantine.length > 0 && (
+              <div className="settings-quarantine">
+                <p className="run-import-note">
+                  Карантина: {quarantine.length} невалидни стойности от
+                  запазените данни
+                </p>
+                <div className="run-import-actions">
+                  <button type="button" onClick={downloadQuarantine}>
+                    <Download aria-hidden="true" />
+                    Изтегли
+                  </button>
+                  <button type="button" onClick={discardQuarantine}>
+                    <Trash2 aria-hidden="true" />
+                    Изчисти
+                  </button>
+                </div>
+              </div>
+            )}
             <div className="modal-actions">
               <button type="button" onClick={closeApiModal}>
                 <X aria-hidden="true" />
@@ -1087,6 +3027,13 @@ function App() {
         </div>
       )}
 
+      {uploadProgress && (
+        <UploadProgressPanel
+          progress={uploadProgress}
+          onCancel={() => uploadAbortRef.current?.abort()}
+        />
+      )}
+
       {toast && (
         <div
           className={`toast toast-${toast.tone}`}
@@ -0,0 +1,51 @@
+import { Copy, Trash2 } from "lucide-react";
+import type { ApiDiagnostic } from "../types";
+
+interface DiagnosticsPanelProps {
+  entries: ApiDiagnostic[];
+  onCopy: () => void;
+  onClear: () => void;
+  formatTime: (createdAt: number) => string;
+}
+
+export default function DiagnosticsPanel({
+  entries,
+  onCopy,
+  onClear,
+  formatTime,
+}: DiagnosticsPanelProps) {
+  if (!entries.length) {
+    return null;
+  }
+
+  return (
+    <div className="settings-diagnostics">
+      <p className="run-import-note">
+        Диагностика: {entries.length} API грешки в тази сесия
+      </p>
+      <div className="settings-diagnostics-list">
+        {entries.map((entry) => (
+          <details key={entry.id}>
+            <summary>
+              {formatTime(entry.createdAt)} · {entry.context} · {entry.kind}
+              {entry.status !== null ? ` ${entry.status}` : ""}
+            </summary>
+            <p>Provider: {entry.provider}</p>
+            <p>{entry.message}</p>
+            {entry.body && <pre>{entry.body}</pre>}
+          </details>
+        ))}
+      </div>
+      <div className="run-import-actions">
+        <button type="button" onClick={onCopy}>
+          <Copy aria-hidden="true" />
+          Копирай за поддръжка
+        </button>
+        <button type="button" onClick={onClear}>
+          <Trash2 aria-hidden="true" />
+          Изчисти
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Plus, X } from "lucide-react";
+import { getDraftLabel } from "../services/drafts";
+import type { ReportDraft } from "../types";
+
+interface DraftTabsProps {
+  drafts: ReportDraft[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onClose: (id: string) => void;
+}
+
+export default function DraftTabs({
+  drafts,
+  activeId,
+  onSelect,
+  onAdd,
+  onClose,
+}: DraftTabsProps) {
+  return (
+    <div className="draft-tabs" role="tablist" aria-label="Report drafts">
+      {drafts.map((draft, index) => {
+        const isActive = draft.id === activeId;
+        return (
+          <div
+            key={draft.id}
+            className={`draft-tab${isActive ? " is-active" : ""}`}
+          >
+            <button
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              title={
+                draft.state.reportNumber
+                  ? `№ ${draft.state.reportNumber}`
+                  : `ID: ${draft.docMeta.docId}`
+              }
+              onClick={() => onSelect(draft.id)}
+            >
+              {getDraftLabel(draft, index)}
+            </button>
+            {drafts.length > 1 && (
+              <button
+                type="button"
+                className="draft-tab-close"
+                title="Затвори"
+                onClick={() => onClose(draft.id)}
+              >
+                <X aria-hidden="true" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="draft-tab-add"
+        title="Нова чернова"
+        onClick={onAdd}
+      >
+        <Plus aria-hidden="true" />
+      </button>
+    </div>
+  );
+}
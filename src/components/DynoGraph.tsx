@@ -1,18 +1,80 @@
-import { useMemo } from "react";
+import { useId, useMemo, useState, type MouseEvent } from "react";
+import {
+  findPeakSample,
+  getCurveArea,
+  getPowerband,
+} from "../services/annotations";
+import { buildSyntheticSamples } from "../services/curves";
+import { estimateCrankValue } from "../services/drivetrain";
+import {
+  buildNiceScale,
+  buildRpmTicks,
+  getRpmRange,
+  type AxisSettings,
+} from "../services/graphScale";
+import { getRunStyle } from "../services/runData";
+import {
+  getUnitLabels,
+  toDisplaySample,
+  toDisplayUnits,
+  type UnitSystem,
+} from "../services/units";
+import type { CurveProfile, RunSample, RunStyle } from "../types";
 
 interface Point {
   x: number;
   y: number;
 }
 
+export interface GraphRun {
+  id: string;
+  samples: RunSample[];
+  style: RunStyle;
+}
+
 interface DynoGraphProps {
   whp: number;
   wtq: number;
   rpm: number;
+  psi: number;
+  afr: number;
+  curve: CurveProfile;
+  runs?: GraphRun[];
+  /** Imported runs exist but are all toggled off; draws no fallback curve. */
+  allRunsHidden?: boolean;
+  channelSamples?: RunSample[] | null;
+  /** Samples behind the powerband and area, shared with the report summary. */
+  annotationSamples: RunSample[];
   showHp: boolean;
   showTq: boolean;
+  showBoost: boolean;
+  showAfr: boolean;
+  showPeaks: boolean;
+  showPowerband: boolean;
+  showArea: boolean;
+  unitSystem: UnitSystem;
+  axes: AxisSettings;
+  drivetrainLoss: number;
+  pinnedRpm: number | null;
+  onPinnedRpmChange: (rpm: number | null) => void;
 }
 
+type ChannelKey = "boost" | "afr";
+
+type RightAxisKey = "tq" | ChannelKey;
+
+interface ReadoutLine {
+  label: string;
+  value: string;
+  color: string;
+}
+
+const AFR_RICH_LIMIT = 10.8;
+const AFR_LEAN_LIMIT = 12.8;
+const RIGHT_AXIS_WIDTH = 46;
+const READOUT_WIDTH = 176;
+const READOUT_LINE = 16;
+
 function toPath(points: Point[]): string {
   return points
     .map(
@@ -48,96 +110,433 @@ function toSmoothPath(points: Point[]): string {
   return path.join(" ");
 }
 
+function channelValues(samples: RunSample[], channel: ChannelKey): number[] {
+  return samples.flatMap((sample) =>
+    sample[channel] === undefined ? [] : [sample[channel] as number],
+  );
+}
+
+function findNearestSample(
+  samples: RunSample[],
+  rpm: number,
+): RunSample | null {
+  return samples.reduce<RunSample | null>(
+    (nearest, sample) =>
+      !nearest || Math.abs(sample.rpm - rpm) < Math.abs(nearest.rpm - rpm)
+        ? sample
+        : nearest,
+    null,
+  );
+}
+
+function buildTicks(min: number, max: number, count: number): number[] {
+  return Array.from({ length: count + 1 }, (_, index) =>
+    Number((min + (index / count) * (max - min)).toFixed(1)),
+  );
+}
+
 export default function DynoGraph({
   whp,
   wtq,
   rpm,
+  psi,
+  afr,
+  curve,
+  runs = [],
+  allRunsHidden = false,
+  channelSamples,
+  annotationSamples,
   showHp,
   showTq,
+  showBoost,
+  showAfr,
+  showPeaks,
+  showPowerband,
+  showArea,
+  unitSystem,
+  axes,
+  drivetrainLoss,
+  pinnedRpm,
+  onPinnedRpmChange,
 }: DynoGraphProps) {
+  const [hoverRpm, setHoverRpm] = useState<number | null>(null);
+  const clipId = `dyno-plot-${useId().replace(/:/g, "")}`;
   const width = 900;
   const height = 430;
-  const pad = { top: 24, right: 24, bottom: 44, left: 52 };
+  const rightAxes: RightAxisKey[] = [
+    ...(axes.splitAxes ? (["tq"] as const) : []),
+    ...(showBoost ? (["boost"] as const) : []),
+    ...(showAfr ? (["afr"] as const) : []),
+  ];
+  const pad = {
+    top: 24,
+    right: 24 + rightAxes.length * RIGHT_AXIS_WIDTH,
+    bottom: 44,
+    left: 52,
+  };
 
   const chart = useMemo(() => {
-    const minRpm = 0;
-    const maxRpm = Math.max(minRpm + 1200, rpm);
-    const yMax = Math.max(900, Math.ceil((Math.max(whp, wtq) + 120) / 50) * 50);
-    const steps = 220;
+    const sampleMaxRpm = runs.length
+      ? Math.max(...runs.flatMap((run) => run.samples.map((s) => s.rpm)))
+      : rpm;
+    const { minRpm, maxRpm } = getRpmRange(sampleMaxRpm, axes);
+    const toDisplay = (samples: RunSample[]) =>
+      samples
+        .filter((sample) => sample.rpm >= minRpm && sample.rpm <= maxRpm)
+        .map((sample) => toDisplaySample(sample, unitSystem));
+    const synthetic = toDisplay(
+      buildSyntheticSamples({
+        whp,
+        wtq,
+        rpm: sampleMaxRpm,
+        psi,
+        afr,
+        curve,
+      }),
+    );
+    const graphRuns: GraphRun[] = runs.length
+      ? runs.map((run) => ({ ...run, samples: toDisplay(run.samples) }))
+      : allRunsHidden
+        ? []
+        : [{ id: "synthetic", samples: synthetic, style: getRunStyle(0) }];
+    const allSamples = graphRuns.flatMap((run) => run.samples);
+    const peakHp = Math.max(0, ...allSamples.map((sample) => sample.hp));
+    const peakTq = Math.max(0, ...allSamples.map((sample) => sample.tq));
+    const scaleHp = axes.lock
+      ? toDisplayUnits("power", axes.lock.power, unitSystem)
+      : peakHp;
+    const scaleTq = axes.lock
+      ? toDisplayUnits("torque", axes.lock.torque, unitSystem)
+      : peakTq;
+
+    const powerAxis = buildNiceScale(
+      axes.splitAxes ? scaleHp : Math.max(scaleHp, scaleTq),
+    );
+    const torqueAxis = axes.splitAxes ? buildNiceScale(scaleTq) : powerAxis;
 
     const xScale = (value: number) =>
       pad.left +
       ((value - minRpm) / (maxRpm - minRpm)) * (width - pad.left - pad.right);
     const yScale = (value: number) =>
-      pad.top + (1 - value / yMax) * (height - pad.top - pad.bottom);
-
-    const hpCurve: Point[] = [];
-    const tqCurve: Point[] = [];
+      pad.top + (1 - value / powerAxis.max) * (height - pad.top - pad.bottom);
+    const tqScale = (value: number) =>
+      pad.top + (1 - value / torqueAxis.max) * (height - pad.top - pad.bottom);
+
+    const curves = graphRuns.map((run) => ({
+      id: run.id,
+      style: run.style,
+      samples: run.samples,
+      peakHp: Math.max(...run.samples.map((sample) => sample.hp)),
+      peakTq: Math.max(...run.samples.map((sample) => sample.tq)),
+      peakHpSample: findPeakSample(run.samples, "hp"),
+      peakTqSample: findPeakSample(run.samples, "tq"),
+      hpPath: toSmoothPath(
+        run.samples.map((sample) => ({
+          x: xScale(sample.rpm),
+          y: yScale(sample.hp),
+        })),
+      ),
+      tqPath: toSmoothPath(
+        run.samples.map((sample) => ({
+          x: xScale(sample.rpm),
+          y: tqScale(sample.tq),
+        })),
+      ),
+    }));
+
+    const primaryIndex = Math.max(
+      0,
+      runs.findIndex((run) => run.samples === channelSamples),
+    );
+    const primarySamples = graphRuns[primaryIndex]?.samples ?? [];
+
+    const pickChannel = (channel: ChannelKey) =>
+      allRunsHidden
+        ? []
+        : channelSamples && channelValues(channelSamples, channel).length
+          ? toDisplay(
+              channelSamples.filter((sample) => sample[channel] !== undefined),
+            )
+          : synthetic.filter((sample) => sample[channel] !== undefined);
+
+    const boostSamples = pickChannel("boost");
+    const boostPeak = Math.max(0, ...channelValues(boostSamples, "boost"));
+    const boostStep = unitSystem === "metric" ? 0.5 : 5;
+    const boostMax = Math.max(
+      boostStep,
+      Math.ceil((boostPeak * 1.15) / boostStep) * boostStep,
+    );
+    const boostScale = (value: number) =>
+      pad.top + (1 - value / boostMax) * (height - pad.top - pad.bottom);
+
+    const afrSamples = pickChannel("afr");
+    const afrValues = channelValues(afrSamples, "afr");
+    const afrMin = Math.min(10, Math.floor(Math.min(...afrValues, 10)));
+    const afrMax = Math.max(16, Math.ceil(Math.max(...afrValues, 16)));
+    const afrScale = (value: number) =>
+      pad.top +
+      (1 - (value - afrMin) / (afrMax - afrMin)) *
+        (height - pad.top - pad.bottom);
+
+    const channelPath = (
+      samples: RunSample[],
+      channel: ChannelKey,
+      scale: (value: number) => number,
+    ) =>
+      toSmoothPath(
+        samples.map((sample) => ({
+          x: xScale(sample.rpm),
+          y: scale(sample[channel] as number),
+        })),
+      );
+
+    const xTicks = buildRpmTicks(minRpm, maxRpm);
+    const yTicks = powerAxis.ticks;
 
-    const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+    return {
+      xTicks,
+      yTicks,
+      curves,
+      primarySamples,
+      powerband: allRunsHidden
+        ? null
+        : getPowerband(toDisplay(annotationSamples)),
+      area: allRunsHidden ? 0 : getCurveArea(toDisplay(annotationSamples)),
+      xScale,
+      yScale,
+      tqScale,
+      toRpm: (x: number) =>
+        minRpm +
+        ((x - pad.left) / (width - pad.left - pad.right)) * (maxRpm - minRpm),
+      tq: {
+        ticks: torqueAxis.ticks,
+        scale: tqScale,
+      },
+      boost: {
+        samples: boostSamples,
+        path: channelPath(boostSamples, "boost", boostScale),
+        ticks: buildTicks(0, boostMax, 5),
+        scale: boostScale,
+      },
+      afr: {
+        samples: afrSamples,
+        path: channelPath(afrSamples, "afr", afrScale),
+        ticks: buildTicks(
+          afrMin,
+          afrMax,
+          afrMax - afrMin > 8 ? 4 : afrMax - afrMin,
+        ),
+        scale: afrScale,
+      },
+    };
+  }, [
+    whp,
+    wtq,
+    rpm,
+    psi,
+    afr,
+    runs,
+    allRunsHidden,
+    channelSamples,
+    annotationSamples,
+    pad.right,
+    unitSystem,
+    curve,
+    axes,
+  ]);
+
+  const unitLabels = getUnitLabels(unitSystem);
+  const primarySamples = chart.primarySamples;
+  const peakMarkers = chart.curves.flatMap((curve) => [
+    ...(showHp && curve.peakHpSample
+      ? [
+          {
+            key: `peak-hp-${curve.id}`,
+            rpm: curve.peakHpSample.rpm,
+            value: curve.peakHpSample.hp,
+            scale: chart.yScale,
+            color: curve.style.hp,
+          },
+        ]
+      : []),
+    ...(showTq && curve.peakTqSample
+      ? [
+          {
+            key: `peak-tq-${curve.id}`,
+            rpm: curve.peakTqSample.rpm,
+            value: curve.peakTqSample.tq,
+            scale: chart.tqScale,
+            color: curve.style.tq,
+          },
+        ]
+      : []),
+  ]);
+
+  const toSnappedRpm = (event: MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / (rect.width || 1)) * width;
+    if (x < pad.left || x > width - pad.right) {
+      return null;
+    }
 
-    const tqRawSamples: Array<{ rpm: number; tqRaw: number }> = [];
-    const hpRawSamples: Array<{
-      rpm: number;
-      tqValue: number;
-      hpRawValue: number;
-    }> = [];
-    for (let i = 0; i <= steps; i += 1) {
-      const currentRpm = minRpm + (i / steps) * (maxRpm - minRpm);
+    return findNearestSample(primarySamples, chart.toRpm(x))?.rpm ?? null;
+  };
 
-      const rise = sigmoid((currentRpm - 3600) / 760);
-      const fallCenter = minRpm + (maxRpm - minRpm) * 0.84;
-      const fall = sigmoid((currentRpm - fallCenter) / 650);
-      const tqRaw = 0.34 + 0.86 * rise - 0.34 * fall;
+  const handlePointerMove = (event: MouseEvent<SVGSVGElement>) => {
+    setHoverRpm(toSnappedRpm(event));
+  };
 
-      tqRawSamples.push({ rpm: currentRpm, tqRaw });
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    const snapped = toSnappedRpm(event);
+    if (snapped === null) {
+      return;
     }
 
-    const tqRawPeak = Math.max(...tqRawSamples.map((item) => item.tqRaw));
-    const tqScale = wtq / (tqRawPeak || 1);
+    onPinnedRpmChange(snapped === pinnedRpm ? null : snapped);
+  };
+
+  const buildReadout = (targetRpm: number): ReadoutLine[] => {
+    const multiRun = chart.curves.length > 1;
+    const lines: ReadoutLine[] = [
+      { label: "RPM", value: String(Math.round(targetRpm)), color: "#dce6f8" },
+    ];
+
+    chart.curves.forEach((curve, index) => {
+      const sample = findNearestSample(curve.samples, targetRpm);
+      if (!sample) {
+        return;
+      }
+
+      const prefix = multiRun ? `#${index + 1} ` : "";
+      if (showHp) {
+        lines.push({
+          label: `${prefix}${unitLabels.power}`,
+          value: String(Math.round(sample.hp)),
+          color: curve.style.hp,
+        });
+        lines.push({
+          label: `${prefix}≈${unitLabels.crankPower} колянов`,
+          value: String(
+            Math.round(estimateCrankValue(sample.hp, drivetrainLoss)),
+          ),
+          color: curve.style.hp,
+        });
+      }
+      if (showTq) {
+        lines.push({
+          label: `${prefix}${unitLabels.torque}`,
+          value: String(Math.round(sample.tq)),
+          color: curve.style.tq,
+        });
+        lines.push({
+          label: `${prefix}≈${unitLabels.crankTorque} колянов`,
+          value: String(
+            Math.round(estimateCrankValue(sample.tq, drivetrainLoss)),
+          ),
+          color: curve.style.tq,
+        });
+      }
+    });
 
-    for (const item of tqRawSamples) {
-      const tqValue = item.tqRaw * tqScale;
-      const hpRawValue = (tqValue * item.rpm) / 5252;
-      hpRawSamples.push({ rpm: item.rpm, tqValue, hpRawValue });
+    const boostSample = findNearestSample(chart.boost.samples, targetRpm);
+    if (showBoost && boostSample?.boost !== undefined) {
+      lines.push({
+        label: `Boost ${unitLabels.boost}`,
+        value: boostSample.boost.toFixed(unitSystem === "metric" ? 2 : 1),
+        color: "#38bdf8",
+      });
     }
 
-    const hpRawPeak = Math.max(...hpRawSamples.map((item) => item.hpRawValue));
-    const hpScale = whp / (hpRawPeak || 1);
-
-    for (let i = 0; i <= steps; i += 1) {
-      const currentRpm = hpRawSamples[i].rpm;
-      const tqValue = hpRawSamples[i].tqValue;
-      const hpValue = hpRawSamples[i].hpRawValue * hpScale;
-
-      hpCurve.push({ x: xScale(currentRpm), y: yScale(hpValue) });
-      tqCurve.push({ x: xScale(currentRpm), y: yScale(tqValue) });
+    const afrSample = findNearestSample(chart.afr.samples, targetRpm);
+    if (showAfr && afrSample?.afr !== undefined) {
+      lines.push({
+        label: "AFR",
+        value: afrSample.afr.toFixed(1),
+        color: "#a3e635",
+      });
     }
 
-    const xTicks = Array.from({ length: 9 }, (_, index) => {
-      const value = minRpm + (index / 8) * (maxRpm - minRpm);
-      return Math.round(value / 100) * 100;
-    });
-    const yTicks = [0, 150, 300, 450, 600, 750, 900, yMax].filter(
-      (v, i, arr) => arr.indexOf(v) === i,
+    return lines;
+  };
+
+  const renderMarker = (targetRpm: number, pinned: boolean) => {
+    const x = chart.xScale(targetRpm);
+    const lines = buildReadout(targetRpm);
+    const boxHeight = lines.length * READOUT_LINE + 10;
+    const flip = x + 10 + READOUT_WIDTH > width - pad.right;
+    const boxX = flip ? x - 10 - READOUT_WIDTH : x + 10;
+    const boxY = pad.top + 6;
+
+    return (
+      <g
+        className={`crosshair${pinned ? " is-pinned" : ""}`}
+        pointerEvents="none"
+      >
+        <line
+          x1={x}
+          y1={pad.top}
+          x2={x}
+          y2={height - pad.bottom}
+          stroke={pinned ? "#f8fafc" : "#94a3b8"}
+          strokeWidth={pinned ? 1.5 : 1}
+          strokeDasharray={pinned ? undefined : "4 4"}
+        />
+        <rect
+          x={boxX}
+          y={boxY}
+          width={READOUT_WIDTH}
+          height={boxHeight}
+          rx="4"
+          fill="#0b1120"
+          fillOpacity="0.88"
+          stroke={pinned ? "#e61e1e" : "#334155"}
+        />
+        {lines.map((line, index) => (
+          <g key={line.label}>
+            <text
+              x={boxX + 8}
+              y={boxY + 18 + index * READOUT_LINE}
+              className="crosshair-label"
+              fill={line.color}
+            >
+              {line.label}
+            </text>
+            <text
+              x={boxX + READOUT_WIDTH - 8}
+              y={boxY + 18 + index * READOUT_LINE}
+              className="crosshair-value"
+              fill="#f8fafc"
+              textAnchor="end"
+            >
+              {line.value}
+            </text>
+          </g>
+        ))}
+      </g>
     );
-
-    return {
-      xTicks,
-      yTicks,
-      hpPath: toSmoothPath(hpCurve),
-      tqPath: toSmoothPath(tqCurve),
-      xScale,
-      yScale,
-    };
-  }, [whp, wtq, rpm]);
+  };
 
   return (
     <svg
       viewBox={`0 0 ${width} ${height}`}
       role="img"
       aria-label="Dyno horsepower and torque graph"
+      className="dyno-graph"
+      onPointerMove={handlePointerMove}
+      onPointerDown={handlePointerMove}
+      onPointerLeave={() => setHoverRpm(null)}
+      onClick={handleClick}
     >
+      <defs>
+        <clipPath id={clipId}>
+          <rect
+            x={pad.left}
+            y={pad.top}
+            width={width - pad.left - pad.right}
+            height={height - pad.top - pad.bottom}
+          />
+        </clipPath>
+      </defs>
       <rect x="0" y="0" width={width} height={height} fill="transparent" />
 
       {chart.yTicks.map((tick) => (
@@ -177,8 +576,183 @@ export default function DynoGraph({
         className="axis-line"
       />
 
-      {showTq && <path d={chart.tqPath} className="curve curve-tq" />}
-      {showHp && <path d={chart.hpPath} className="curve curve-hp" />}
+      {showAfr && (
+        <>
+          <rect
+            x={pad.left}
+            y={chart.afr.scale(chart.afr.ticks[chart.afr.ticks.length - 1])}
+            width={width - pad.left - pad.right}
+            height={
+              chart.afr.scale(AFR_LEAN_LIMIT) -
+              chart.afr.scale(chart.afr.ticks[chart.afr.ticks.length - 1])
+            }
+            className="afr-band afr-band-lean"
+          />
+          <rect
+            x={pad.left}
+            y={chart.afr.scale(AFR_RICH_LIMIT)}
+            width={width - pad.left - pad.right}
+            height={
+              chart.afr.scale(chart.afr.ticks[0]) -
+              chart.afr.scale(AFR_RICH_LIMIT)
+            }
+            className="afr-band afr-band-rich"
+          />
+        </>
+      )}
+
+      {showPowerband && chart.powerband && (
+        <g className="powerband">
+          <rect
+            x={chart.xScale(chart.powerband.startRpm)}
+            y={pad.top}
+            width={
+              chart.xScale(chart.powerband.endRpm) -
+              chart.xScale(chart.powerband.startRpm)
+            }
+            height={height - pad.top - pad.bottom}
+            fill="#e61e1e"
+            fillOpacity="0.08"
+          />
+          <text
+            x={
+              (chart.xScale(chart.powerband.startRpm) +
+                chart.xScale(chart.powerband.endRpm)) /
+              2
+            }
+            y={height - pad.bottom - 8}
+            className="annotation-label"
+            fill="#fca5a5"
+            textAnchor="middle"
+          >
+            {`Powerband ${Math.round(chart.powerband.startRpm)}–${Math.round(
+              chart.powerband.endRpm,
+            )} RPM`}
+          </text>
+        </g>
+      )}
+
+      <g clipPath={`url(#${clipId})`}>
+        {showTq &&
+          chart.curves.map((curve) => (
+            <path
+              key={`tq-${curve.id}`}
+              d={curve.tqPath}
+              className="curve curve-tq"
+              style={{
+                stroke: curve.style.tq,
+                strokeDasharray: curve.style.dash || undefined,
+              }}
+            >
+              <title>
+                {`${Math.round(curve.peakTq)} ${unitLabels.torque} · ≈${Math.round(
+                  estimateCrankValue(curve.peakTq, drivetrainLoss),
+                )} ${unitLabels.crankTorque} колянов вал (оценка)`}
+              </title>
+            </path>
+          ))}
+        {showHp &&
+          chart.curves.map((curve) => (
+            <path
+              key={`hp-${curve.id}`}
+              d={curve.hpPath}
+              className="curve curve-hp"
+              style={{
+                stroke: curve.style.hp,
+                strokeDasharray: curve.style.dash || undefined,
+              }}
+            >
+              <title>
+                {`${Math.round(curve.peakHp)} ${unitLabels.power} · ≈${Math.round(
+                  estimateCrankValue(curve.peakHp, drivetrainLoss),
+                )} ${unitLabels.crankPower} колянов вал (оценка)`}
+              </title>
+            </path>
+          ))}
+
+        {showPeaks &&
+          peakMarkers.map((peak) => (
+            <g key={peak.key} className="peak-marker">
+              <circle
+                cx={chart.xScale(peak.rpm)}
+                cy={peak.scale(peak.value)}
+                r="5"
+                fill={peak.color}
+                stroke="#0b1120"
+                strokeWidth="2"
+              />
+              <text
+                x={chart.xScale(peak.rpm)}
+                y={peak.scale(peak.value) - 10}
+                className="annotation-label"
+                fill={peak.color}
+                textAnchor="middle"
+              >
+                {`${Math.round(peak.value)} @ ${Math.round(peak.rpm)}`}
+              </text>
+            </g>
+          ))}
+
+        {showArea && chart.area > 0 && (
+          <text
+            x={pad.left + 10}
+            y={pad.top + 14}
+            className="annotation-label"
+            fill="#dce6f8"
+          >
+            {`Площ под ${unitLabels.power}: ${Math.round(chart.area)} ${
+              unitLabels.power
+            }·krpm`}
+          </text>
+        )}
+
+        {showBoost && chart.boost.path && (
+          <path d={chart.boost.path} className="curve curve-boost" />
+        )}
+        {showAfr && chart.afr.path && (
+          <path d={chart.afr.path} className="curve curve-afr" />
+        )}
+      </g>
+
+      {rightAxes.map((axis, index) => {
+        const axisX = width - pad.right + index * RIGHT_AXIS_WIDTH;
+        const channel = chart[axis];
+        return (
+          <g key={`axis-${axis}`} className={`right-axis right-axis-${axis}`}>
+            <line
+              x1={axisX}
+              y1={pad.top}
+              x2={axisX}
+              y2={height - pad.bottom}
+              className="axis-line"
+            />
+            {channel.ticks.map((tick) => (
+              <text
+                key={`${axis}-${tick}`}
+                x={axisX + 6}
+                y={channel.scale(tick) + 4}
+                className="axis-label"
+                textAnchor="start"
+              >
+                {tick}
+              </text>
+            ))}
+            <text
+              x={axisX + 36}
+              y={height / 2}
+              className="axis-title"
+              textAnchor="middle"
+              transform={`rotate(90 ${axisX + 36} ${height / 2})`}
+            >
+              {axis === "tq"
+                ? unitLabels.torque
+                : axis === "boost"
+                  ? `Boost ${unitLabels.boost}`
+                  : "AFR"}
+            </text>
+          </g>
+        );
+      })}
 
       {chart.xTicks.map((tick) => (
         <text
@@ -219,8 +793,28 @@ export default function DynoGraph({
         textAnchor="middle"
         transform={`rotate(-90 18 ${height / 2})`}
       >
-        Power / Torque
+        {axes.splitAxes
+          ? unitLabels.power
+          : unitSystem === "metric"
+            ? `${unitLabels.power} / ${unitLabels.torque}`
+            : "Power / Torque"}
       </text>
+
+      {allRunsHidden && (
+        <text
+          x={(pad.left + width - pad.right) / 2}
+          y={(pad.top + height - pad.bottom) / 2}
+          className="graph-empty"
+          textAnchor="middle"
+        >
+          Всички рънове са скрити
+        </text>
+      )}
+
+      {pinnedRpm !== null && renderMarker(pinnedRpm, true)}
+      {hoverRpm !== null &&
+        hoverRpm !== pinnedRpm &&
+        renderMarker(hoverRpm, false)}
     </svg>
   );
 }
\ No newline at end of file
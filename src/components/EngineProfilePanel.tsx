@@ -0,0 +1,100 @@
+import type { ChangeEvent, CSSProperties } from "react";
+import {
+  CURVE_LIMITS,
+  ENGINE_PROFILES,
+  getEngineProfile,
+  toEngineProfileId,
+} from "../services/curves";
+import type { CurveProfile } from "../types";
+
+interface EngineProfilePanelProps {
+  value: CurveProfile;
+  hasRuns: boolean;
+  /** `field` lets the caller group one slider drag into a single undo step. */
+  onChange: (value: CurveProfile, field: CurveParam | "profile") => void;
+  onChangeEnd: () => void;
+}
+
+type CurveParam = keyof typeof CURVE_LIMITS;
+
+const PARAMS: { key: CurveParam; label: string }[] = [
+  { key: "onsetRpm", label: "Начало въртящ момент RPM" },
+  { key: "plateauWidth", label: "Ширина на платото RPM" },
+  { key: "falloff", label: "Спад в края" },
+];
+
+function formatParam(key: CurveParam, value: number): string {
+  return key === "falloff" ? `${Math.round(value * 100)}%` : String(value);
+}
+
+export default function EngineProfilePanel({
+  value,
+  hasRuns,
+  onChange,
+  onChangeEnd,
+}: EngineProfilePanelProps) {
+  const handleProfile = (event: ChangeEvent<HTMLSelectElement>) => {
+    const profile = toEngineProfileId(event.target.value);
+    onChange({ profile, ...getEngineProfile(profile).defaults }, "profile");
+  };
+
+  const handleParam =
+    (key: CurveParam) => (event: ChangeEvent<HTMLInputElement>) => {
+      onChange({ ...value, [key]: Number(event.target.value) }, key);
+    };
+
+  return (
+    <div className="section-block engine-profile">
+      <h2>ПРОФИЛ НА ДВИГАТЕЛЯ</h2>
+      <label className="engine-profile-select">
+        <span>Характер</span>
+        <select value={value.profile} onChange={handleProfile}>
+          {ENGINE_PROFILES.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {PARAMS.map(({ key, label }) => {
+        const limits = CURVE_LIMITS[key];
+        return (
+          <label className="slider-row" key={key}>
+            <span>{label}</span>
+            <input
+              type="range"
+              disabled={hasRuns}
+              min={limits.min}
+              max={limits.max}
+              step={limits.step}
+              value={value[key]}
+              onChange={handleParam(key)}
+              onPointerUp={onChangeEnd}
+              onPointerCancel={onChangeEnd}
+              onKeyUp={onChangeEnd}
+              onBlur={onChangeEnd}
+              style={
+                {
+                  "--progress": `${
+                    ((value[key] - limits.min) / (limits.max - limits.min)) *
+                    100
+                  }%`,
+                } as CSSProperties
+              }
+            />
+            <span className="engine-profile-value">
+              {formatParam(key, value[key])}
+            </span>
+          </label>
+        );
+      })}
+
+      {hasRuns && (
+        <p className="run-import-note">
+          Профилът се използва само без импортиран запис.
+        </p>
+      )}
+    </div>
+  );
+}
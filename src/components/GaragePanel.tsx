@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { ArrowLeft, FolderOpen, Trash2 } from "lucide-react";
+import {
+  differsFromVehicle,
+  findVehicle,
+  getVehicleReports,
+  type VehicleReportPoint,
+} from "../services/garage";
+import {
+  formatQuantity,
+  getUnitLabels,
+  type UnitSystem,
+} from "../services/units";
+import type { DynoData, LibraryReport, VehicleProfile } from "../types";
+
+interface GaragePanelProps {
+  vehicles: VehicleProfile[];
+  reports: LibraryReport[];
+  data: DynoData;
+  unitSystem: UnitSystem;
+  onFill: (vehicle: VehicleProfile) => void;
+  onOpenReport: (report: LibraryReport) => void;
+  onDelete: (vehicle: VehicleProfile) => void;
+  formatTime: (createdAt: number) => string;
+}
+
+const SPARK_WIDTH = 220;
+const SPARK_HEIGHT = 48;
+
+function buildSparkline(points: VehicleReportPoint[]): string {
+  if (points.length < 2) {
+    return "";
+  }
+
+  const values = points.map((point) => point.whp);
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min || 1;
+  return points
+    .map((point, index) => {
+      const x = (index / (points.length - 1)) * SPARK_WIDTH;
+      const y =
+        SPARK_HEIGHT - 4 - ((point.whp - min) / span) * (SPARK_HEIGHT - 8);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+export default function GaragePanel({
+  vehicles,
+  reports,
+  data,
+  unitSystem,
+  onFill,
+  onOpenReport,
+  onDelete,
+  formatTime,
+}: GaragePanelProps) {
+  const [selectedPlate, setSelectedPlate] = useState<string | null>(null);
+  const unitLabels = getUnitLabels(unitSystem);
+  const match = findVehicle(vehicles, data.plate);
+  const selected = selectedPlate ? findVehicle(vehicles, selectedPlate) : null;
+
+  if (selected) {
+    const points = getVehicleReports(reports, selected.plate);
+    const sparkline = buildSparkline(points);
+
+    return (
+      <div className="section-block garage">
+        <h2>ГАРАЖ · {selected.plate}</h2>
+        <div className="garage-vehicle">
+          <p>
+            {selected.model} · {selected.engine} · {selected.drivetrain}
+          </p>
+          <span>Собственик: {selected.owner || "—"}</span>
+        </div>
+
+        {sparkline && (
+          <svg
+            className="garage-sparkline"
+            viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`}
+            role="img"
+            aria-label="Power progression"
+          >
+            <polyline points={sparkline} />
+          </svg>
+        )}
+
+        <div className="search-results-panel">
+          {!points.length ? (
+            <p className="search-empty">Няма записани доклади за колата</p>
+          ) : (
+            <div className="search-results-list">
+              {points.map((point, index) => {
+                const delta =
+                  index > 0 ? point.whp - points[index - 1].whp : null;
+                return (
+                  <article className="garage-report-row" key={point.report.id}>
+                    <span>{formatTime(point.report.createdAt)}</span>
+                    <strong>
+                      {formatQuantity("power", point.whp, unitSystem)}{" "}
+                      {unitLabels.power}
+                    </strong>
+                    <span
+                      className={`stat-delta${
+                        delta !== null && delta < 0 ? " is-negative" : ""
+                      }`}
+                    >
+                      {delta === null
+                        ? "—"
+                        : `${delta >= 0 ? "+" : "-"}${formatQuantity(
+                            "power",
+                            Math.abs(delta),
+                            unitSystem,
+                          )}`}
+                    </span>
+                    <div className="search-result-actions">
+                      <button
+                        type="button"
+                        title="Отвори"
+                        onClick={() => onOpenReport(point.report)}
+                      >
+                        <FolderOpen aria-hidden="true" />
+                      </button>
+                    </div>
+                  </article>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="run-import-actions">
+          <button type="button" onClick={() => setSelectedPlate(null)}>
+            <ArrowLeft aria-hidden="true" />
+            Назад
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              onDelete(selected);
+              setSelectedPlate(null);
+            }}
+          >
+            <Trash2 aria-hidden="true" />
+            Изтрий
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="section-block garage">
+      <h2>ГАРАЖ</h2>
+      {match && differsFromVehicle(data, match) && (
+        <div className="garage-match">
+          <p className="run-import-note">
+            {match.plate} е в гаража: {match.model} · {match.owner || "—"}
+          </p>
+          <div className="run-import-actions">
+            <button type="button" onClick={() => onFill(match)}>
+              Попълни
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!vehicles.length ? (
+        <p className="search-empty">
+          Колите се добавят автоматично при запис на доклад
+        </p>
+      ) : (
+        <div className="garage-list">
+          {vehicles.map((vehicle) => (
+            <button
+              key={vehicle.plate}
+              type="button"
+              className={vehicle === match ? "is-active" : undefined}
+              onClick={() => setSelectedPlate(vehicle.plate)}
+            >
+              <strong>{vehicle.plate}</strong>
+              <span>{vehicle.model}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useId, useState } from "react";
 
 interface InlineEditableProps {
   value: string;
@@ -6,6 +6,7 @@ interface InlineEditableProps {
   className?: string;
   multiline?: boolean;
   maxLength?: number;
+  suggestions?: string[];
 }
 
 interface InlineEditableSelectProps {
@@ -13,6 +14,7 @@ interface InlineEditableSelectProps {
   options: string[];
   onCommit: (value: string) => void;
   className?: string;
+  formatOption?: (value: string) => string;
 }
 
 export function InlineEditable({
@@ -21,9 +23,11 @@ export function InlineEditable({
   className = "",
   multiline = false,
   maxLength,
+  suggestions,
 }: InlineEditableProps) {
   const [editing, setEditing] = useState(false);
   const [draft, setDraft] = useState(value);
+  const listId = useId();
 
   useEffect(() => {
     if (!editing) {
@@ -68,25 +72,35 @@ export function InlineEditable({
     }
 
     return (
-      <input
-        type="text"
-        className={`inline-editable-input ${className}`.trim()}
-        value={draft}
-        maxLength={maxLength}
-        autoFocus
-        onChange={(event) => setDraft(event.target.value)}
-        onBlur={finish}
-        onKeyDown={(event) => {
-          if (event.key === "Enter") {
-            event.preventDefault();
-            finish();
-          }
-          if (event.key === "Escape") {
-            event.preventDefault();
-            cancel();
-          }
-        }}
-      />
+      <>
+        <input
+          type="text"
+          className={`inline-editable-input ${className}`.trim()}
+          value={draft}
+          maxLength={maxLength}
+          list={suggestions?.length ? listId : undefined}
+          autoFocus
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={finish}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              finish();
+            }
+            if (event.key === "Escape") {
+              event.preventDefault();
+              cancel();
+            }
+          }}
+        />
+        {suggestions?.length ? (
+          <datalist id={listId}>
+            {suggestions.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        ) : null}
+      </>
     );
   }
 
@@ -107,6 +121,7 @@ export function InlineEditableSelect({
   options,
   onCommit,
   className = "",
+  formatOption = (option) => option,
 }: InlineEditableSelectProps) {
   const [editing, setEditing] = useState(false);
 
@@ -130,7 +145,7 @@ export function InlineEditableSelect({
       >
         {options.map((option) => (
           <option key={option} value={option}>
-            {option}
+            {formatOption(option)}
           </option>
         ))}
       </select>
@@ -144,7 +159,7 @@ export function InlineEditableSelect({
       onClick={() => setEditing(true)}
       title="Click to edit"
     >
-      {value || "-"}
+      {value ? formatOption(value) : "-"}
     </button>
   );
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import { Copy, ExternalLink, FolderOpen, Trash2 } from "lucide-react";
+import {
+  EMPTY_LIBRARY_FILTERS,
+  filterReports,
+  type LibraryFilters,
+} from "../services/library";
+import type { LibraryReport } from "../types";
+
+interface LibraryPanelProps {
+  reports: LibraryReport[];
+  activeReportId: string | null;
+  onOpen: (report: LibraryReport) => void;
+  onDuplicate: (report: LibraryReport) => void;
+  onDelete: (report: LibraryReport) => void;
+  formatTime: (createdAt: number) => string;
+}
+
+const TEXT_FILTERS: { key: keyof LibraryFilters; placeholder: string }[] = [
+  { key: "plate", placeholder: "Рег. номер" },
+  { key: "owner", placeholder: "Собственик" },
+  { key: "operator", placeholder: "Оператор" },
+];
+
+export default function LibraryPanel({
+  reports,
+  activeReportId,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  formatTime,
+}: LibraryPanelProps) {
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_LIBRARY_FILTERS);
+  const visibleReports = useMemo(
+    () => filterReports(reports, filters),
+    [reports, filters],
+  );
+
+  const updateFilter = (key: keyof LibraryFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="section-block library">
+      <h2>БИБЛИОТЕКА</h2>
+      <div className="library-filters">
+        {TEXT_FILTERS.map(({ key, placeholder }) => (
+          <input
+            key={key}
+            type="text"
+            value={filters[key]}
+            placeholder={placeholder}
+            onChange={(event) => updateFilter(key, event.target.value)}
+          />
+        ))}
+        <input
+          type="date"
+          value={filters.dateFrom}
+          title="От дата"
+          onChange={(event) => updateFilter("dateFrom", event.target.value)}
+        />
+        <input
+          type="date"
+          value={filters.dateTo}
+          title="До дата"
+          onChange={(event) => updateFilter("dateTo", event.target.value)}
+        />
+      </div>
+
+      <div className="search-results-panel">
+        {!visibleReports.length ? (
+          <p className="search-empty">
+            {reports.length
+              ? "Няма доклади по тези филтри"
+              : "Докладите се записват тук при изтегляне, копиране или качване"}
+          </p>
+        ) : (
+          <div className="search-results-list">
+            {visibleReports.map((report) => (
+              <article
+                key={report.id}
+                className={`search-result-row${
+                  report.id === activeReportId ? " is-active" : ""
+                }`}
+              >
+                <button
+                  type="button"
+                  className="search-result-thumb"
+                  title="Отвори"
+                  onClick={() => onOpen(report)}
+                >
+                  <img src={report.thumbnail} alt="Dyno доклад" />
+                </button>
+                <div className="search-result-meta">
+                  <p>
+                    {report.state.data.plate || "—"} · {report.state.data.model}
+                  </p>
+                  <span>
+                    {report.state.data.owner || "—"} /{" "}
+                    {report.state.data.operator || "—"}
+                  </span>
+                  <span>
+                    {report.state.reportNumber
+                      ? `№ ${report.state.reportNumber} · `
+                      : ""}
+                    {formatTime(report.createdAt)}
+                  </span>
+                </div>
+                <div className="search-result-actions">
+                  <button
+                    type="button"
+                    title="Отвори"
+                    onClick={() => onOpen(report)}
+                  >
+                    <FolderOpen aria-hidden="true" />
+                  </button>
+                  <button
+                    type="button"
+                    title="Дублирай"
+                    onClick={() => onDuplicate(report)}
+                  >
+                    <Copy aria-hidden="true" />
+                  </button>
+                  {report.uploadUrl && (
+                    <a
+                      href={report.uploadUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      title="Качен файл"
+                    >
+                      <ExternalLink aria-hidden="true" />
+                    </a>
+                  )}
+                  <button
+                    type="button"
+                    title="Изтрий"
+                    onClick={() => onDelete(report)}
+                  >
+                    <Trash2 aria-hidden="true" />
+                  </button>
+                </div>
+              </article>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { FileUp, Flag, Trash2 } from "lucide-react";
+import {
+  buildRunSamples,
+  createRunId,
+  describeCsvError,
+  detectRunColumns,
+  getNextRunStyleIndex,
+  getRunPeaks,
+  getRunStyle,
+  parseCsvText,
+  type BoostUnit,
+  type MixtureUnit,
+  type ParsedCsv,
+  type PowerUnit,
+  type RunColumnMapping,
+  type TorqueUnit,
+} from "../services/runData";
+import {
+  formatQuantity,
+  getUnitLabels,
+  type UnitSystem,
+} from "../services/units";
+import type { DynoRun } from "../types";
+import { InlineEditable } from "./InlineEditable";
+
+interface RunImportPanelProps {
+  runs: DynoRun[];
+  baselineRunId: string | null;
+  selectedRunId: string | null;
+  unitSystem: UnitSystem;
+  baroKpa: number;
+  onAdd: (run: DynoRun) => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+  onSetBaseline: (id: string) => void;
+  onSelect: (id: string) => void;
+  onError: (message: string) => void;
+}
+
+interface PendingImport {
+  fileName: string;
+  csv: ParsedCsv;
+  mapping: RunColumnMapping;
+}
+
+export default function RunImportPanel({
+  runs,
+  baselineRunId,
+  selectedRunId,
+  unitSystem,
+  baroKpa,
+  onAdd,
+  onRename,
+  onRemove,
+  onSetBaseline,
+  onSelect,
+  onError,
+}: RunImportPanelProps) {
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const csv = parseCsvText(await file.text());
+      setPending({
+        fileName: file.name,
+        csv,
+        mapping: detectRunColumns(csv.headers),
+      });
+    } catch (error) {
+      onError(describeCsvError(error));
+    }
+  };
+
+  const updateMapping = (patch: Partial<RunColumnMapping>) => {
+    setPending((prev) =>
+      prev ? { ...prev, mapping: { ...prev.mapping, ...patch } } : prev,
+    );
+  };
+
+  const applyImport = () => {
+    if (!pending) {
+      return;
+    }
+
+    try {
+      const samples = buildRunSamples(
+        pending.csv.rows,
+        pending.mapping,
+        baroKpa,
+      );
+      onAdd({
+        id: createRunId(),
+        name: runs.length === 0 ? "Stock" : `Run ${runs.length + 1}`,
+        fileName: pending.fileName,
+        importedAt: Date.now(),
+        hidden: false,
+        styleIndex: getNextRunStyleIndex(runs),
+        samples,
+      });
+      setPending(null);
+    } catch (error) {
+      onError(describeCsvError(error));
+    }
+  };
+
+  const renderColumnSelect = (
+    value: number,
+    onChange: (next: number) => void,
+    allowNone: boolean,
+  ) => (
+    <select
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+    >
+      {allowNone && <option value={-1}>—</option>}
+      {pending?.csv.headers.map((header, index) => (
+        <option key={`${header}-${index}`} value={index}>
+          {header || `#${index + 1}`}
+        </option>
+      ))}
+    </select>
+  );
+
+  const unitLabels = getUnitLabels(unitSystem);
+
+  return (
+    <div className="section-block run-import">
+      <h2>РЕАЛЕН ЗАПИС</h2>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv,text/plain"
+        hidden
+        onChange={handleFile}
+      />
+
+      {pending ? (
+        <div className="run-mapping">
+          <p className="run-import-note">
+            {pending.fileName} · {pending.csv.rows.length} реда
+          </p>
+          <div className="run-mapping-grid">
+            <label className="run-mapping-wide">
+              RPM колона
+              {renderColumnSelect(
+                pending.mapping.rpm,
+                (rpm) => updateMapping({ rpm }),
+                false,
+              )}
+            </label>
+            <label>
+              Мощност колона
+              {renderColumnSelect(
+                pending.mapping.power,
+                (power) => updateMapping({ power }),
+                true,
+              )}
+            </label>
+            <label>
+              Мощност единица
+              <select
+                value={pending.mapping.powerUnit}
+                onChange={(event) =>
+                  updateMapping({
+                    powerUnit: event.target.value as PowerUnit,
+                  })
+                }
+              >
+                <option value="hp">hp</option>
+                <option value="kw">kW</option>
+              </select>
+            </label>
+            <label>
+              Момент колона
+              {renderColumnSelect(
+                pending.mapping.torque,
+                (torque) => updateMapping({ torque }),
+                true,
+              )}
+            </label>
+            <label>
+              Момент единица
+              <select
+                value={pending.mapping.torqueUnit}
+                onChange={(event) =>
+                  updateMapping({
+                    torqueUnit: event.target.value as TorqueUnit,
+                  })
+                }
+              >
+                <option value="lbft">lb-ft</option>
+                <option value="nm">Nm</option>
+              </select>
+            </label>
+            <label>
+              Boost колона
+              {renderColumnSelect(
+                pending.mapping.boost,
+                (boost) => updateMapping({ boost }),
+                true,
+              )}
+            </label>
+            <label>
+              Boost единица
+              <select
+                value={pending.mapping.boostUnit}
+                onChange={(event) =>
+                  updateMapping({
+                    boostUnit: event.target.value as BoostUnit,
+                  })
+                }
+              >
+                <option value="psi">psi</option>
+                <option value="bar">bar</option>
+                <option value="kpa">kPa</option>
+                <option value="mapKpa">kPa (абсолютен MAP)</option>
+              </select>
+            </label>
+            <label>
+              AFR колона
+              {renderColumnSelect(
+                pending.mapping.afr,
+                (afr) => updateMapping({ afr }),
+                true,
+              )}
+            </label>
+            <label>
+              AFR единица
+              <select
+                value={pending.mapping.mixtureUnit}
+                onChange={(event) =>
+                  updateMapping({
+                    mixtureUnit: event.target.value as MixtureUnit,
+                  })
+                }
+              >
+                <option value="afr">AFR</option>
+                <option value="lambda">Lambda</option>
+              </select>
+            </label>
+          </div>
+          <div className="run-import-actions">
+            <button type="button" onClick={() => setPending(null)}>
+              Отказ
+            </button>
+            <button type="button" onClick={applyImport}>
+              Импортирай
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {runs.length ? (
+            <ul className="run-list">
+              {runs.map((run) => {
+                const peaks = getRunPeaks(run.samples);
+                const style = getRunStyle(run.styleIndex);
+                const isBaseline = run.id === baselineRunId;
+                const isSelected = run.id === selectedRunId;
+
+                return (
+                  <li
+                    key={run.id}
+                    className={isSelected ? "run-item is-selected" : "run-item"}
+                  >
+                    <button
+                      type="button"
+                      className="run-swatch"
+                      title="Покажи в отчета"
+                      style={{ background: style.hp }}
+                      onClick={() => onSelect(run.id)}
+                    />
+                    <div className="run-item-meta">
+                      <InlineEditable
+                        value={run.name}
+                        onCommit={(next) => onRename(run.id, next)}
+                      />
+                      <span>
+                        {formatQuantity("power", peaks.whp, unitSystem)}{" "}
+                        {unitLabels.power} /{" "}
+                        {formatQuantity("torque", peaks.wtq, unitSystem)}{" "}
+                        {unitLabels.torque} · max {peaks.rpm} RPM ·{" "}
+                        {run.samples.length} точки
+                      </span>
+                    </div>
+                    <div className="run-import-actions">
+                      <button
+                        type="button"
+                        className={isBaseline ? "is-active" : ""}
+                        title="Базов запис за сравнение"
+                        onClick={() => onSetBaseline(run.id)}
+                      >
+                        <Flag aria-hidden="true" />
+                      </button>
+                      <button
+                        type="button"
+                        title="Премахни записа"
+                        onClick={() => onRemove(run.id)}
+                      >
+                        <Trash2 aria-hidden="true" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="run-import-note">
+              Няма зареден запис, графиката е генерирана от плъзгачите.
+            </p>
+          )}
+          <div className="run-import-actions">
+            <button
+              type="button"
+              title="Зареди CSV"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileUp aria-hidden="true" />
+              {runs.length ? "Добави запис" : "CSV"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,33 @@
 import { useEffect, useRef, useState } from "react";
-import { Eye } from "lucide-react";
-import type { RecentUpload, UploadProvider } from "../types";
+import { Eye, FolderOpen } from "lucide-react";
+import {
+  SEARCH_SORT_LABELS,
+  type SearchFilters,
+  type SearchSort,
+} from "../services/api";
+import { UPLOAD_PROVIDERS } from "../services/uploadProviders";
+import type { RecentUpload } from "../types";
 
 interface SearchPanelProps {
   plate: string;
-  uploadProvider: UploadProvider;
+  supportsSearch: boolean;
   isSearching: boolean;
   searchQuery: string;
   setSearchQuery: (value: string) => void;
   onSearch: () => void;
   onResetSearch: () => void;
+  filters: SearchFilters;
+  onFiltersChange: (patch: Partial<SearchFilters>) => void;
   displayedUploads: RecentUpload[];
   pagedUploads: RecentUpload[];
   hasSearched: boolean;
   safeCurrentPage: number;
   totalSearchPages: number;
+  hasNextPage: boolean;
   onPagePrev: () => void;
   onPageNext: () => void;
   onOpenPreview: (upload: RecentUpload) => void;
+  onLoadReport: (upload: RecentUpload) => void;
   formatRecentUploadTime: (createdAt: number) => string;
 }
 
@@ -29,20 +39,24 @@ function fallbackThumbDataUri(label = "NO PREVIEW"): string {
 
 export default function SearchPanel({
   plate,
-  uploadProvider,
+  supportsSearch,
   isSearching,
   searchQuery,
   setSearchQuery,
   onSearch,
   onResetSearch,
+  filters,
+  onFiltersChange,
   displayedUploads,
   pagedUploads,
   hasSearched,
   safeCurrentPage,
   totalSearchPages,
+  hasNextPage,
   onPagePrev,
   onPageNext,
   onOpenPreview,
+  onLoadReport,
   formatRecentUploadTime,
 }: SearchPanelProps) {
   const [brokenSearchThumbs, setBrokenSearchThumbs] = useState<
@@ -62,7 +76,7 @@ export default function SearchPanel({
     searchResultsListRef.current.scrollTo({ top: 0, behavior: "auto" });
   }, [safeCurrentPage]);
 
-  if (uploadProvider !== "primary") {
+  if (!supportsSearch) {
     return null;
   }
 
@@ -93,6 +107,62 @@ export default function SearchPanel({
           Reset
         </button>
       </div>
+      <div className="library-filters search-filters">
+        <input
+          type="date"
+          value={filters.dateFrom}
+          title="От дата"
+          onChange={(event) =>
+            onFiltersChange({ dateFrom: event.target.value })
+          }
+        />
+        <input
+          type="date"
+          value={filters.dateTo}
+          title="До дата"
+          onChange={(event) => onFiltersChange({ dateTo: event.target.value })}
+        />
+        <select
+          value={filters.sort}
+          title="Подредба"
+          onChange={(event) =>
+            onFiltersChange({ sort: event.target.value as SearchSort })
+          }
+        >
+          {Object.entries(SEARCH_SORT_LABELS).map(([sort, label]) => (
+            <option key={sort} value={sort}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.provider}
+          title="Hosting provider"
+          onChange={(event) =>
+            onFiltersChange({ provider: event.target.value })
+          }
+        >
+          <option value="">Всички provider-и</option>
+          {UPLOAD_PROVIDERS.map((provider) => (
+            <option key={provider.id} value={provider.id}>
+              {provider.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.operator}
+          placeholder="Оператор"
+          onChange={(event) =>
+            onFiltersChange({ operator: event.target.value })
+          }
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              onSearch();
+            }
+          }}
+        />
+      </div>
 
       <div className="search-results-panel">
         {!displayedUploads.length ? (
@@ -130,9 +200,13 @@ export default function SearchPanel({
                   <div className="search-result-meta">
                     <p>{item.fileName || "unnamed-file"}</p>
                     <span>
-                      provider: {item.provider === "imgbb" ? "imgbb" : "main"}
+                      provider:{" "}
+                      {item.provider === "primary" ? "main" : item.provider}
+                    </span>
+                    <span>
+                      {formatRecentUploadTime(item.createdAt)}
+                      {item.operator ? ` · ${item.operator}` : ""}
                     </span>
-                    <span>{formatRecentUploadTime(item.createdAt)}</span>
                   </div>
                   <div className="search-result-actions">
                     <button
@@ -142,6 +216,13 @@ export default function SearchPanel({
                     >
                       <Eye aria-hidden="true" />
                     </button>
+                    <button
+                      type="button"
+                      title="Зареди доклада от изображението"
+                      onClick={() => onLoadReport(item)}
+                    >
+                      <FolderOpen aria-hidden="true" />
+                    </button>
                   </div>
                 </article>
               ))}
@@ -158,12 +239,13 @@ export default function SearchPanel({
               <button
                 type="button"
                 onClick={onPageNext}
-                disabled={safeCurrentPage >= totalSearchPages}
+                disabled={!hasNextPage || isSearching}
               >
                 Next
               </button>
               <span>
                 {safeCurrentPage} of {totalSearchPages}
+                {hasNextPage && safeCurrentPage >= totalSearchPages ? "+" : ""}
               </span>
             </div>
           </>
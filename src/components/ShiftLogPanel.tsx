@@ -0,0 +1,133 @@
+import { useMemo, useState } from "react";
+import { FileDown } from "lucide-react";
+import {
+  LOG_ACTION_LABELS,
+  filterLogEntries,
+  getLogOperators,
+  getToday,
+  summarizeLog,
+  type OperatorLogFilters,
+} from "../services/operatorLog";
+import {
+  formatQuantity,
+  getUnitLabels,
+  type UnitSystem,
+} from "../services/units";
+import type { OperatorLogEntry } from "../types";
+
+interface ShiftLogPanelProps {
+  entries: OperatorLogEntry[];
+  unitSystem: UnitSystem;
+  onExport: (entries: OperatorLogEntry[], filters: OperatorLogFilters) => void;
+  formatTime: (createdAt: number) => string;
+}
+
+export default function ShiftLogPanel({
+  entries,
+  unitSystem,
+  onExport,
+  formatTime,
+}: ShiftLogPanelProps) {
+  const [filters, setFilters] = useState<OperatorLogFilters>(() => ({
+    operator: "",
+    dateFrom: getToday(),
+    dateTo: getToday(),
+  }));
+  const unitLabels = getUnitLabels(unitSystem);
+  const operators = useMemo(() => getLogOperators(entries), [entries]);
+  const visibleEntries = useMemo(
+    () => filterLogEntries(entries, filters),
+    [entries, filters],
+  );
+  const summary = useMemo(() => summarizeLog(visibleEntries), [visibleEntries]);
+
+  const updateFilter = (key: keyof OperatorLogFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="section-block shift-log">
+      <h2>ДНЕВНИК НА СМЯНАТА</h2>
+      <div className="library-filters">
+        <select
+          value={filters.operator}
+          onChange={(event) => updateFilter("operator", event.target.value)}
+        >
+          <option value="">Всички оператори</option>
+          {operators.map((operator) => (
+            <option key={operator} value={operator}>
+              {operator || "—"}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.dateFrom}
+          title="От дата"
+          onChange={(event) => updateFilter("dateFrom", event.target.value)}
+        />
+        <input
+          type="date"
+          value={filters.dateTo}
+          title="До дата"
+          onChange={(event) => updateFilter("dateTo", event.target.value)}
+        />
+      </div>
+
+      {!visibleEntries.length ? (
+        <p className="search-empty">
+          {entries.length
+            ? "Няма записи за този период"
+            : "Всяко изтегляне, копиране и качване се записва тук"}
+        </p>
+      ) : (
+        <>
+          <div className="shift-log-summary">
+            {summary.map((item) => (
+              <div key={item.operator} className="shift-log-operator">
+                <strong>{item.operator || "—"}</strong>
+                <span>
+                  {item.reports} доклада · {item.actions} действия
+                </span>
+                <span>
+                  Макс {formatQuantity("power", item.bestWhp, unitSystem)}{" "}
+                  {unitLabels.power} /{" "}
+                  {formatQuantity("torque", item.bestWtq, unitSystem)}{" "}
+                  {unitLabels.torque}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="search-results-panel">
+            <div className="search-results-list">
+              {visibleEntries.map((entry) => (
+                <article className="shift-log-row" key={entry.id}>
+                  <span>{formatTime(entry.createdAt)}</span>
+                  <span>{LOG_ACTION_LABELS[entry.action]}</span>
+                  <span>
+                    {entry.plate || "—"} · {entry.model}
+                  </span>
+                  <strong>
+                    {formatQuantity("power", entry.whp, unitSystem)}{" "}
+                    {unitLabels.power}
+                  </strong>
+                </article>
+              ))}
+            </div>
+          </div>
+
+          <div className="run-import-actions">
+            <button
+              type="button"
+              onClick={() => onExport(visibleEntries, filters)}
+            >
+              <FileDown aria-hidden="true" />
+              CSV
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { X } from "lucide-react";
+import {
+  formatPhaseDuration,
+  UPLOAD_PHASE_LABELS,
+  UPLOAD_PHASES,
+  type UploadProgressState,
+} from "../services/uploadProgress";
+
+interface UploadProgressPanelProps {
+  progress: UploadProgressState;
+  onCancel: () => void;
+}
+
+export default function UploadProgressPanel({
+  progress,
+  onCancel,
+}: UploadProgressPanelProps) {
+  const phaseIndex = UPLOAD_PHASES.indexOf(progress.phase);
+  const overall =
+    ((phaseIndex + (progress.percent ?? 0) / 100) / UPLOAD_PHASES.length) * 100;
+
+  return (
+    <div className="upload-progress" role="status">
+      <div className="upload-progress-steps">
+        {UPLOAD_PHASES.map((phase) => {
+          const duration = progress.durations[phase];
+          const isActive = phase === progress.phase;
+          return (
+            <span
+              key={phase}
+              className={`upload-progress-step${isActive ? " is-active" : ""}${
+                duration !== undefined ? " is-done" : ""
+              }`}
+            >
+              {UPLOAD_PHASE_LABELS[phase]}
+              {duration !== undefined
+                ? ` ${formatPhaseDuration(duration)}`
+                : isActive && progress.percent !== null
+                  ? ` ${progress.percent}%`
+                  : ""}
+            </span>
+          );
+        })}
+      </div>
+      <div className="upload-progress-bar">
+        <span style={{ width: `${overall}%` }} />
+      </div>
+      <button type="button" onClick={onCancel}>
+        <X aria-hidden="true" />
+        Откажи
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { RefreshCw, X } from "lucide-react";
+import type { QueuedUpload } from "../types";
+
+interface UploadQueuePanelProps {
+  items: QueuedUpload[];
+  activeId: string | null;
+  online: boolean;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  formatTime: (createdAt: number) => string;
+}
+
+export default function UploadQueuePanel({
+  items,
+  activeId,
+  online,
+  onRetry,
+  onCancel,
+  formatTime,
+}: UploadQueuePanelProps) {
+  if (!items.length) {
+    return null;
+  }
+
+  return (
+    <div className="section-block upload-queue">
+      <h2>ОПАШКА ЗА КАЧВАНЕ · {items.length}</h2>
+      {!online && (
+        <p className="run-import-note">
+          Няма връзка. Качванията ще продължат автоматично.
+        </p>
+      )}
+      <div className="search-results-list">
+        {items.map((item) => {
+          const isActive = item.id === activeId;
+          return (
+            <article className="upload-queue-row" key={item.id}>
+              <div className="search-result-meta">
+                <p>{item.fileName}</p>
+                <span>
+                  {isActive
+                    ? "Качване..."
+                    : item.failed
+                      ? `Неуспешно след ${item.attempts} опита`
+                      : `Опит ${item.attempts + 1} в ${formatTime(item.nextAttemptAt)}`}
+                </span>
+                {item.lastError && (
+                  <span className="upload-queue-error">{item.lastError}</span>
+                )}
+              </div>
+              <div className="search-result-actions">
+                <button
+                  type="button"
+                  title="Опитай сега"
+                  onClick={() => onRetry(item.id)}
+                  disabled={isActive || !online}
+                >
+                  <RefreshCw aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  title="Откажи"
+                  onClick={() => onCancel(item.id)}
+                >
+                  <X aria-hidden="true" />
+                </button>
+              </div>
+            </article>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
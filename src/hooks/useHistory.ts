@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+interface HistoryEntry<T> {
+  label: string;
+  state: T;
+}
+
+export interface HistoryStacks<T> {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+}
+
+interface PendingAction {
+  label: string;
+  group: string | null;
+}
+
+interface HistoryOptions<T> {
+  limit?: number;
+  ignoreKeys?: (keyof T)[];
+}
+
+const DEFAULT_LABEL = "Промяна";
+const NO_IGNORED_KEYS: never[] = [];
+
+function shallowEqual<T extends object>(
+  a: T,
+  b: T,
+  ignoreKeys: (keyof T)[],
+): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof T)[]);
+  return [...keys].every(
+    (key) => ignoreKeys.includes(key) || a[key] === b[key],
+  );
+}
+
+/**
+ * Records a snapshot of `present` before each labelled action. Consecutive
+ * actions sharing a `group` (e.g. one slider drag) collapse into one step.
+ */
+export function useHistory<T extends object>(
+  present: T,
+  /** `label` names the action being undone or redone. */
+  onRestore: (state: T, label: string) => void,
+  { limit = 100, ignoreKeys = NO_IGNORED_KEYS }: HistoryOptions<T> = {},
+) {
+  const [past, setPast] = useState<HistoryEntry<T>[]>([]);
+  const [future, setFuture] = useState<HistoryEntry<T>[]>([]);
+  const previousRef = useRef(present);
+  const pendingRef = useRef<PendingAction | null>(null);
+  const activeGroupRef = useRef<string | null>(null);
+  const restoringRef = useRef(false);
+
+  // Read by the stable undo/redo callbacks below.
+  const latestRef = useRef({ past, future, present, onRestore });
+  latestRef.current = { past, future, present, onRestore };
+
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = present;
+    if (restoringRef.current || shallowEqual(previous, present, ignoreKeys)) {
+      return;
+    }
+
+    const action = pendingRef.current ?? { label: DEFAULT_LABEL, group: null };
+    pendingRef.current = null;
+    if (action.group && action.group === activeGroupRef.current) {
+      return;
+    }
+
+    activeGroupRef.current = action.group;
+    setPast((prev) =>
+      [...prev, { label: action.label, state: previous }].slice(-limit),
+    );
+    setFuture([]);
+  }, [present, limit, ignoreKeys]);
+
+  // A restore that changes nothing never reaches the effect above.
+  useEffect(() => {
+    restoringRef.current = false;
+  });
+
+  const mark = useCallback((label: string, group: string | null = null) => {
+    pendingRef.current = { label, group };
+  }, []);
+
+  const endGroup = useCallback(() => {
+    activeGroupRef.current = null;
+  }, []);
+
+  // Call before swapping in an unrelated state so the swap is not recorded.
+  // Returns the outgoing stacks so each document can keep its own history.
+  const swapStacks = useCallback(
+    (next: HistoryStacks<T> = { past: [], future: [] }): HistoryStacks<T> => {
+      const { past, future } = latestRef.current;
+      restoringRef.current = true;
+      activeGroupRef.current = null;
+      pendingRef.current = null;
+      setPast(next.past);
+      setFuture(next.future);
+      return { past, future };
+    },
+    [],
+  );
+
+  const undo = useCallback(() => {
+    const { past, future, present, onRestore } = latestRef.current;
+    const entry = past.at(-1);
+    if (!entry) {
+      return;
+    }
+
+    restoringRef.current = true;
+    activeGroupRef.current = null;
+    setPast(past.slice(0, -1));
+    setFuture([{ label: entry.label, state: present }, ...future]);
+    onRestore(entry.state, entry.label);
+  }, []);
+
+  const redo = useCallback(() => {
+    const { past, future, present, onRestore } = latestRef.current;
+    const entry = future[0];
+    if (!entry) {
+      return;
+    }
+
+    restoringRef.current = true;
+    activeGroupRef.current = null;
+    setFuture(future.slice(1));
+    setPast([...past, { label: entry.label, state: present }]);
+    onRestore(entry.state, entry.label);
+  }, []);
+
+  return useMemo(
+    () => ({
+      canUndo: past.length > 0,
+      canRedo: future.length > 0,
+      undoLabel: past.at(-1)?.label ?? null,
+      redoLabel: future[0]?.label ?? null,
+      mark,
+      endGroup,
+      swapStacks,
+      undo,
+      redo,
+    }),
+    [past, future, mark, endGroup, swapStacks, undo, redo],
+  );
+}
@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { uploadReportImage } from "../services/api";
+import {
+  createQueuedUpload,
+  deleteQueuedUpload,
+  getQueuedUpload,
+  isUploadDue,
+  listQueuedUploads,
+  putQueuedUpload,
+  scheduleRetry,
+} from "../services/uploadQueue";
+import {
+  findUploadProvider,
+  type ProviderSettings,
+} from "../services/uploadProviders";
+import type { QueuedUpload, UploadProviderId } from "../types";
+
+interface UploadQueueOptions {
+  getSettings: (provider: UploadProviderId) => ProviderSettings;
+  timeoutMs: number;
+  onUploaded: (item: QueuedUpload, url: string) => void;
+  onFailed: (item: QueuedUpload, error: unknown) => void;
+}
+
+function isOnline(): boolean {
+  return typeof navigator === "undefined" || navigator.onLine !== false;
+}
+
+/**
+ * Keeps failed uploads in IndexedDB and retries them with backoff, plus
+ * immediately whenever the browser reports the connection is back.
+ */
+export function useUploadQueue(options: UploadQueueOptions) {
+  const [items, setItems] = useState<QueuedUpload[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [online, setOnline] = useState(isOnline);
+  const optionsRef = useRef(options);
+  const processingRef = useRef(false);
+  const cancelledRef = useRef(new Set<string>());
+  const abortRef = useRef<AbortController | null>(null);
+  optionsRef.current = options;
+
+  const refresh = useCallback(async () => {
+    try {
+      setItems(await listQueuedUploads());
+    } catch {
+      setItems([]);
+    }
+  }, []);
+
+  const processQueue = useCallback(
+    async (force = false) => {
+      if (processingRef.current || !isOnline()) {
+        return;
+      }
+
+      processingRef.current = true;
+      try {
+        const now = Date.now();
+        const due = (await listQueuedUploads()).filter(
+          (item) => (force && !item.failed) || isUploadDue(item, now),
+        );
+
+        for (const item of due) {
+          // Cancelled while an earlier item was uploading.
+          if (
+            cancelledRef.current.has(item.id) ||
+            !(await getQueuedUpload(item.id))
+          ) {
+            continue;
+          }
+
+          setActiveId(item.id);
+          const controller = new AbortController();
+          abortRef.current = controller;
+          try {
+            const provider = findUploadProvider(item.provider);
+            if (!provider) {
+              throw new Error(`Unknown upload provider "${item.provider}".`);
+            }
+
+            const url = await uploadReportImage({
+              provider,
+              settings: optionsRef.current.getSettings(item.provider),
+              details: item.details ?? undefined,
+              signal: controller.signal,
+              timeoutMs: optionsRef.current.timeoutMs,
+              uploadBlob: item.blob,
+              fileName: item.fileName,
+            });
+            await deleteQueuedUpload(item.id);
+            optionsRef.current.onUploaded(item, url);
+          } catch (error) {
+            // Cancelled while in flight: do not bring the item back.
+            if (!cancelledRef.current.has(item.id)) {
+              await putQueuedUpload(scheduleRetry(item, error));
+              optionsRef.current.onFailed(item, error);
+            }
+          }
+        }
+      } catch {
+        // IndexedDB unavailable; nothing to retry.
+      } finally {
+        processingRef.current = false;
+        abortRef.current = null;
+        setActiveId(null);
+        await refresh();
+      }
+    },
+    [refresh],
+  );
+
+  const enqueue = async (
+    params: Parameters<typeof createQueuedUpload>[0],
+  ): Promise<void> => {
+    await putQueuedUpload(createQueuedUpload(params));
+    await refresh();
+  };
+
+  const retry = async (id: string) => {
+    const item = items.find((entry) => entry.id === id);
+    if (!item) {
+      return;
+    }
+
+    await putQueuedUpload({
+      ...item,
+      nextAttemptAt: Date.now(),
+      failed: false,
+    });
+    await processQueue();
+  };
+
+  const cancel = async (id: string) => {
+    cancelledRef.current.add(id);
+    if (id === activeId) {
+      abortRef.current?.abort();
+    }
+    await deleteQueuedUpload(id);
+    await refresh();
+  };
+
+  useEffect(() => {
+    void processQueue();
+  }, [processQueue]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      void processQueue(true);
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [processQueue]);
+
+  useEffect(() => {
+    const pending = items.filter((item) => !item.failed);
+    if (!pending.length || activeId) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(
+      ...pending.map((item) => item.nextAttemptAt),
+    );
+    const timer = window.setTimeout(
+      () => void processQueue(),
+      Math.max(1000, nextAttemptAt - Date.now()),
+    );
+    return () => window.clearTimeout(timer);
+  }, [items, activeId, processQueue]);
+
+  return { items, activeId, online, enqueue, retry, cancel };
+}
@@ -0,0 +1,58 @@
+import type { RunSample } from "../types";
+
+export interface Powerband {
+  startRpm: number;
+  endRpm: number;
+}
+
+export const POWERBAND_THRESHOLD = 0.9;
+
+export function findPeakSample(
+  samples: RunSample[],
+  key: "hp" | "tq",
+): RunSample | null {
+  return samples.reduce<RunSample | null>(
+    (peak, sample) => (!peak || sample[key] > peak[key] ? sample : peak),
+    null,
+  );
+}
+
+/** Contiguous rpm range around peak power where power stays above the threshold. */
+export function getPowerband(
+  samples: RunSample[],
+  threshold = POWERBAND_THRESHOLD,
+): Powerband | null {
+  const peak = findPeakSample(samples, "hp");
+  if (!peak || peak.hp <= 0) {
+    return null;
+  }
+
+  const limit = peak.hp * threshold;
+  const peakIndex = samples.indexOf(peak);
+  let start = peakIndex;
+  let end = peakIndex;
+
+  while (start > 0 && samples[start - 1].hp >= limit) {
+    start -= 1;
+  }
+
+  while (end < samples.length - 1 && samples[end + 1].hp >= limit) {
+    end += 1;
+  }
+
+  return { startRpm: samples[start].rpm, endRpm: samples[end].rpm };
+}
+
+// Trapezoidal integral of power over rpm, reported per 1000 rpm.
+export function getCurveArea(samples: RunSample[]): number {
+  return (
+    samples.reduce((area, sample, index) => {
+      if (index === 0) {
+        return area;
+      }
+
+      const prev = samples[index - 1];
+      return area + ((prev.hp + sample.hp) / 2) * (sample.rpm - prev.rpm);
+    }, 0) / 1000
+  );
+}
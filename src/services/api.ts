@@ -1,8 +1,56 @@
-import type { RecentUpload, UploadProvider } from "../types";
+import type { RecentUpload, UploadReportDetails } from "../types";
+import {
+  BODY_EXCERPT_LENGTH,
+  createHttpError,
+  NetworkError,
+  NonJsonResponseError,
+} from "./apiErrors";
+import type {
+  ProviderSettings,
+  UploadHttpRequest,
+  UploadProviderDefinition,
+} from "./uploadProviders";
 
 export const PRIMARY_API_BASE = "https://webproj.space/fapi";
 
-function ensureNonEmpty(value: string, field: string): string {
+export type SearchSort = "newest" | "oldest" | "name";
+
+export interface SearchFilters {
+  dateFrom: string;
+  dateTo: string;
+  provider: string;
+  operator: string;
+  sort: SearchSort;
+}
+
+export interface SearchPage {
+  items: RecentUpload[];
+  /** Opaque token for the following page, null on the last one. */
+  nextCursor: string | null;
+  total: number | null;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  dateFrom: "",
+  dateTo: "",
+  provider: "",
+  operator: "",
+  sort: "newest",
+};
+
+export const SEARCH_SORT_LABELS: Record<SearchSort, string> = {
+  newest: "Най-нови",
+  oldest: "Най-стари",
+  name: "Име",
+};
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return Boolean(
+    filters.dateFrom || filters.dateTo || filters.provider || filters.operator,
+  );
+}
+
+export function ensureNonEmpty(value: string, field: string): string {
   const trimmed = value.trim();
   if (!trimmed) {
     throw new Error(`Invalid ${field}: empty value.`);
@@ -24,19 +72,21 @@ async function parseJsonOrThrow(
   response: Response,
   context: string,
 ): Promise<unknown> {
+  const body = await safeReadResponseText(response);
   try {
-    return await response.json();
+    return JSON.parse(body);
   } catch {
-    const body = await safeReadResponseText(response);
-    throw new Error(
+    throw new NonJsonResponseError(
       body
-        ? `${context} returned non-JSON response: ${body.slice(0, 180)}.`
+        ? `${context} returned non-JSON response: ${body.slice(0, BODY_EXCERPT_LENGTH)}.`
         : `${context} returned non-JSON response.`,
+      response.status,
+      body,
     );
   }
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
+export function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null;
 }
 
@@ -115,7 +165,8 @@ function normalizeApiSearchResults(payload: unknown): RecentUpload[] {
     seen.add(url);
     mapped.push({
       url,
-      provider: "primary",
+      provider:
+        typeof entry?.provider === "string" ? entry.provider : "primary",
       createdAt:
         Number(entry?.createdAt) ||
         Number(entry?.uploadedAt) ||
@@ -131,36 +182,14 @@ function normalizeApiSearchResults(payload: unknown): RecentUpload[] {
               ? entry.name
               : "",
       ),
+      operator: typeof entry?.operator === "string" ? entry.operator : "",
     });
-
-    if (mapped.length >= 200) {
-      break;
-    }
   }
 
   return mapped;
 }
 
-function extractUploadedUrl(result: unknown, provider: UploadProvider): string {
-  if (!isRecord(result)) {
-    return "";
-  }
-
-  if (provider === "imgbb") {
-    const data = isRecord(result.data) ? result.data : {};
-    return typeof data.url === "string"
-      ? data.url
-      : typeof data.display_url === "string"
-        ? data.display_url
-        : typeof data.url_viewer === "string"
-          ? data.url_viewer
-          : "";
-  }
-
-  return typeof result.url === "string" ? result.url : "";
-}
-
-async function blobToBase64Payload(blob: Blob): Promise<string> {
+export async function blobToBase64Payload(blob: Blob): Promise<string> {
   return new Promise<string>((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = () => {
@@ -172,90 +201,230 @@ async function blobToBase64Payload(blob: Blob): Promise<string> {
   });
 }
 
-export async function searchUploads(
-  query: string,
-  apiKey: string,
-): Promise<RecentUpload[]> {
-  const safeQuery = ensureNonEmpty(query, "search query");
-  const safeApiKey = ensureNonEmpty(apiKey, "API key");
+function readSearchPaging(
+  payload: unknown,
+): Pick<SearchPage, "nextCursor" | "total"> {
+  const source = isRecord(payload) ? payload : {};
+  const sourceData = isRecord(source.data) ? source.data : {};
+  const cursor = [
+    source.nextCursor,
+    source.next_cursor,
+    sourceData.nextCursor,
+    sourceData.next_cursor,
+  ].find(
+    (value) =>
+      (typeof value === "string" && value) || typeof value === "number",
+  );
+  const total = [source.total, sourceData.total].find(
+    (value) => typeof value === "number" && Number.isFinite(value),
+  );
+
+  return {
+    nextCursor: cursor === undefined ? null : String(cursor),
+    total: typeof total === "number" ? total : null,
+  };
+}
 
-  const params = new URLSearchParams({
-    q: safeQuery,
+function sortSearchResults(
+  items: RecentUpload[],
+  sort: SearchSort,
+): RecentUpload[] {
+  return [...items].sort((a, b) =>
+    sort === "name"
+      ? a.fileName.localeCompare(b.fileName)
+      : sort === "oldest"
+        ? a.createdAt - b.createdAt
+        : b.createdAt - a.createdAt,
+  );
+}
+
+export async function searchUploads(params: {
+  query: string;
+  apiKey: string;
+  filters: SearchFilters;
+  cursor: string | null;
+  limit: number;
+}): Promise<SearchPage> {
+  const { filters, cursor, limit } = params;
+  const safeQuery = params.query.trim();
+  const safeApiKey = ensureNonEmpty(params.apiKey, "API key");
+  if (!safeQuery && !hasSearchFilters(filters)) {
+    throw new Error("Invalid search query: empty value.");
+  }
+
+  const search = new URLSearchParams({
+    sort: filters.sort,
+    limit: String(limit),
+  });
+  [
+    ["q", safeQuery],
+    ["from", filters.dateFrom],
+    ["to", filters.dateTo],
+    ["provider", filters.provider],
+    ["operator", filters.operator.trim()],
+    ["cursor", cursor ?? ""],
+  ].forEach(([key, value]) => {
+    if (value) {
+      search.set(key, value);
+    }
   });
 
-  const response = await fetch(
-    `${PRIMARY_API_BASE}/search?${params.toString()}`,
-    {
+  let response: Response;
+  try {
+    response = await fetch(`${PRIMARY_API_BASE}/search?${search.toString()}`, {
       method: "GET",
       headers: {
         "X-API-Key": safeApiKey,
       },
-    },
-  );
+    });
+  } catch {
+    throw new NetworkError("Search failed: network error.");
+  }
 
   if (!response.ok) {
-    const body = await safeReadResponseText(response);
-    throw new Error(
-      body
-        ? `Search failed (${response.status}): ${body.slice(0, 180)}.`
-        : `Search failed (${response.status}).`,
+    throw createHttpError(
+      "Search",
+      response,
+      await safeReadResponseText(response),
     );
   }
 
   const payload = await parseJsonOrThrow(response, "Search API");
-  return normalizeApiSearchResults(payload);
+  const items = normalizeApiSearchResults(payload);
+  const paging = readSearchPaging(payload);
+  // Re-sorting one page of a paged result would break the order across pages.
+  return {
+    items:
+      cursor || paging.nextCursor
+        ? items
+        : sortSearchResults(items, filters.sort),
+    ...paging,
+  };
+}
+
+export interface UploadTransferOptions {
+  signal?: AbortSignal;
+  /** 0 disables the timeout. */
+  timeoutMs?: number;
+  onProgress?: (percent: number) => void;
 }
 
-export async function uploadReportImage(params: {
-  provider: UploadProvider;
-  activeApiKey: string;
-  uploadBlob: Blob;
-  fileName: string;
-}): Promise<string> {
-  const { provider, uploadBlob } = params;
-  const activeApiKey = ensureNonEmpty(params.activeApiKey, "API key");
+const EMPTY_BODY_STATUSES = [101, 204, 205, 304];
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  raw
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach((line) => {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        headers.append(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim(),
+        );
+      }
+    });
+  return headers;
+}
+
+/**
+ * fetch cannot report upload progress, so the request goes through
+ * XMLHttpRequest and the result is wrapped back into a Response.
+ */
+function sendUploadRequest(
+  request: UploadHttpRequest,
+  options: UploadTransferOptions,
+): Promise<Response> {
+  return new Promise<Response>((resolve, reject) => {
+    const { signal, timeoutMs = 0, onProgress } = options;
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelled.", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", request.url);
+    Object.entries(request.headers ?? {}).forEach(([name, value]) =>
+      xhr.setRequestHeader(name, value),
+    );
+    xhr.timeout = timeoutMs;
+
+    const handleAbort = () => xhr.abort();
+    const settle = (action: () => void) => {
+      signal?.removeEventListener("abort", handleAbort);
+      action();
+    };
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && event.total > 0) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () =>
+      settle(() =>
+        resolve(
+          new Response(
+            EMPTY_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText,
+            {
+              status: xhr.status,
+              statusText: xhr.statusText,
+              headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+            },
+          ),
+        ),
+      );
+    xhr.onerror = () =>
+      settle(() => reject(new NetworkError("Upload failed: network error.")));
+    xhr.ontimeout = () =>
+      settle(() =>
+        reject(
+          new NetworkError(
+            `Upload timed out after ${Math.round(timeoutMs / 1000)}s.`,
+            true,
+          ),
+        ),
+      );
+    xhr.onabort = () =>
+      settle(() => reject(new DOMException("Upload cancelled.", "AbortError")));
+
+    signal?.addEventListener("abort", handleAbort);
+    xhr.send(request.body);
+  });
+}
+
+export async function uploadReportImage(
+  params: {
+    provider: UploadProviderDefinition;
+    settings: ProviderSettings;
+    uploadBlob: Blob;
+    fileName: string;
+    details?: UploadReportDetails;
+  } & UploadTransferOptions,
+): Promise<string> {
+  const { provider, settings, uploadBlob, details } = params;
   const fileName = ensureNonEmpty(params.fileName, "file name");
 
   if (!(uploadBlob instanceof Blob) || uploadBlob.size <= 0) {
     throw new Error("Invalid upload blob: empty payload.");
   }
 
-  let response: Response;
-  if (provider === "imgbb") {
-    const imagePayload = await blobToBase64Payload(uploadBlob);
-    const body = new FormData();
-    body.append("image", imagePayload);
-    body.append("name", fileName.replace(/\.png$/i, ""));
-
-    response = await fetch(
-      `https://api.imgbb.com/1/upload?key=${encodeURIComponent(activeApiKey)}`,
-      {
-        method: "POST",
-        body,
-      },
-    );
-  } else {
-    const formData = new FormData();
-    formData.append("file", uploadBlob, fileName);
-
-    response = await fetch(`${PRIMARY_API_BASE}/upload`, {
-      method: "POST",
-      headers: {
-        "X-API-Key": activeApiKey,
-      },
-      body: formData,
-    });
-  }
+  const request = await provider.buildRequest({
+    blob: uploadBlob,
+    fileName,
+    settings,
+    details,
+  });
+  const response = await sendUploadRequest(request, params);
 
   if (!response.ok) {
-    const body = await safeReadResponseText(response);
-    throw new Error(
-      body
-        ? `Upload failed (${response.status}): ${body.slice(0, 180)}.`
-        : `Upload failed (${response.status}).`,
+    throw createHttpError(
+      "Upload",
+      response,
+      await safeReadResponseText(response),
     );
   }
 
   const result = await parseJsonOrThrow(response, "Upload API");
-  return extractUploadedUrl(result, provider);
+  return provider.extractUrl(result, settings);
 }
\ No newline at end of file
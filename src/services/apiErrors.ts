@@ -0,0 +1,232 @@
+import type { ApiDiagnostic, ApiErrorKind } from "../types";
+
+export const BODY_EXCERPT_LENGTH = 180;
+const MAX_DIAGNOSTICS = 20;
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  /** First characters of the response body, for support. */
+  readonly body: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    status: number | null = null,
+    body = "",
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.body = body.slice(0, BODY_EXCERPT_LENGTH);
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(message: string, status: number, body: string) {
+    super("auth", message, status, body);
+    this.name = "AuthError";
+  }
+}
+
+export class RateLimitError extends ApiError {
+  readonly retryAfterSeconds: number | null;
+
+  constructor(
+    message: string,
+    status: number,
+    body: string,
+    retryAfterSeconds: number | null,
+  ) {
+    super("rateLimit", message, status, body);
+    this.name = "RateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class NetworkError extends ApiError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, timedOut = false) {
+    super("network", message);
+    this.name = "NetworkError";
+    this.timedOut = timedOut;
+  }
+}
+
+export class NonJsonResponseError extends ApiError {
+  constructor(message: string, status: number, body: string) {
+    super("nonJson", message, status, body);
+    this.name = "NonJsonResponseError";
+  }
+}
+
+export class PayloadTooLargeError extends ApiError {
+  constructor(message: string, status: number, body: string) {
+    super("payloadTooLarge", message, status, body);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  const seconds = Number(value);
+  if (value && Number.isFinite(seconds) && seconds >= 0) {
+    return Math.ceil(seconds);
+  }
+
+  const date = value ? Date.parse(value) : NaN;
+  return Number.isFinite(date)
+    ? Math.max(0, Math.ceil((date - Date.now()) / 1000))
+    : null;
+}
+
+export function createHttpError(
+  context: string,
+  response: Response,
+  body: string,
+): ApiError {
+  const { status } = response;
+  const message = body
+    ? `${context} failed (${status}): ${body.slice(0, BODY_EXCERPT_LENGTH)}.`
+    : `${context} failed (${status}).`;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status, body);
+  }
+
+  if (status === 429) {
+    return new RateLimitError(
+      message,
+      status,
+      body,
+      parseRetryAfter(response.headers.get("Retry-After")),
+    );
+  }
+
+  if (status === 413) {
+    return new PayloadTooLargeError(message, status, body);
+  }
+
+  return new ApiError("http", message, status, body);
+}
+
+/** Only transient failures are worth queueing; the rest need the operator. */
+export function isRetryableError(error: unknown): boolean {
+  return (
+    error instanceof NetworkError ||
+    error instanceof RateLimitError ||
+    (error instanceof ApiError &&
+      error.kind === "http" &&
+      error.status !== null &&
+      error.status >= 500)
+  );
+}
+
+export function getRetryAfterMs(error: unknown): number {
+  return error instanceof RateLimitError && error.retryAfterSeconds !== null
+    ? error.retryAfterSeconds * 1000
+    : 0;
+}
+
+/** Bulgarian toast text plus a suggested fix for the operator. */
+export function describeApiError(error: unknown): {
+  message: string;
+  hint: string;
+} {
+  if (error instanceof AuthError) {
+    return {
+      message: `API ключът е отхвърлен (${error.status}).`,
+      hint: "Провери ключа в Настройки.",
+    };
+  }
+
+  if (error instanceof RateLimitError) {
+    return {
+      message: "Твърде много заявки към API.",
+      hint:
+        error.retryAfterSeconds !== null
+          ? `Опитай отново след ${error.retryAfterSeconds} сек.`
+          : "Изчакай малко и опитай отново.",
+    };
+  }
+
+  if (error instanceof NetworkError) {
+    return error.timedOut
+      ? {
+          message: "Сървърът не отговори навреме.",
+          hint: "Провери връзката или увеличи timeout в Настройки.",
+        }
+      : {
+          message: "Няма връзка със сървъра.",
+          hint: "Провери интернет връзката.",
+        };
+  }
+
+  if (error instanceof NonJsonResponseError) {
+    return {
+      message: `Сървърът върна неочакван отговор (${error.status}).`,
+      hint: "Провери адреса на endpoint-а в Настройки.",
+    };
+  }
+
+  if (error instanceof PayloadTooLargeError) {
+    return {
+      message: "Файлът е твърде голям за сървъра.",
+      hint: "Избери друг hosting provider или намали резолюцията.",
+    };
+  }
+
+  if (error instanceof ApiError) {
+    return {
+      message: `Грешка от сървъра (${error.status ?? "—"}).`,
+      hint: "Детайли има в Настройки → Диагностика.",
+    };
+  }
+
+  return {
+    message: "Неочаквана грешка.",
+    hint: "Детайли има в Настройки → Диагностика.",
+  };
+}
+
+export function createDiagnostic(
+  error: unknown,
+  context: string,
+  provider: string,
+): ApiDiagnostic {
+  const now = Date.now();
+  return {
+    id: `diag-${now.toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    createdAt: now,
+    context,
+    provider,
+    kind: error instanceof ApiError ? error.kind : "unknown",
+    status: error instanceof ApiError ? error.status : null,
+    message: error instanceof Error ? error.message : String(error),
+    body: error instanceof ApiError ? error.body : "",
+  };
+}
+
+export function addDiagnostic(
+  entries: ApiDiagnostic[],
+  entry: ApiDiagnostic,
+): ApiDiagnostic[] {
+  return [entry, ...entries].slice(0, MAX_DIAGNOSTICS);
+}
+
+export function formatDiagnostics(entries: ApiDiagnostic[]): string {
+  return entries
+    .map((entry) =>
+      [
+        new Date(entry.createdAt).toISOString(),
+        `${entry.context} via ${entry.provider}`,
+        `kind=${entry.kind} status=${entry.status ?? "-"}`,
+        entry.message,
+        entry.body ? `body: ${entry.body}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    )
+    .join("\n\n");
+}
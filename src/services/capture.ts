@@ -1,4 +1,6 @@
 import html2canvas from "html2canvas";
+import { embedPngText, readPngText } from "./pngText";
+import { REPORT_PNG_KEYWORD } from "./reportFile";
 
 async function waitForPreviewReady(
   previewElement: HTMLElement | null,
@@ -37,6 +39,7 @@ export function isValidImageBlob(blob: Blob | null): blob is Blob {
 export async function prepareUploadBlob(
   blob: Blob | null,
   maxDimension = 1920,
+  keepReportData = true,
 ): Promise<Blob | null> {
   if (!blob) {
     return null;
@@ -86,7 +89,17 @@ export async function prepareUploadBlob(
       canvas.toBlob((nextBlob) => resolve(nextBlob), "image/png", 1);
     });
 
-    return resized || blob;
+    if (!resized) {
+      return blob;
+    }
+
+    // Re-encoding through the canvas drops the embedded report chunk.
+    const reportData = keepReportData
+      ? await readPngText(blob, REPORT_PNG_KEYWORD)
+      : null;
+    return reportData
+      ? await embedPngText(resized, REPORT_PNG_KEYWORD, reportData)
+      : resized;
   } catch {
     return blob;
   } finally {
@@ -96,12 +109,30 @@ export async function prepareUploadBlob(
   }
 }
 
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function createThumbnailDataUrl(
+  blob: Blob,
+  maxDimension = 360,
+): Promise<string> {
+  const thumbnail = await prepareUploadBlob(blob, maxDimension, false);
+  return blobToDataUrl(thumbnail || blob);
+}
+
 export async function renderPreviewBlob(params: {
   previewElement: HTMLElement | null;
   exportWidth: number;
   scale: number;
+  reportData?: string;
 }): Promise<Blob | null> {
-  const { previewElement, exportWidth, scale } = params;
+  const { previewElement, exportWidth, scale, reportData } = params;
   if (!previewElement) {
     return null;
   }
@@ -168,23 +199,34 @@ export async function renderPreviewBlob(params: {
 
   outputCtx.drawImage(canvas, 0, 0, outputWidth, outputHeight);
 
-  return new Promise<Blob | null>((resolve) => {
-    outputCanvas.toBlob((blob) => resolve(blob), "image/png", 1);
+  const blob = await new Promise<Blob | null>((resolve) => {
+    outputCanvas.toBlob((nextBlob) => resolve(nextBlob), "image/png", 1);
   });
+
+  return blob && reportData
+    ? embedPngText(blob, REPORT_PNG_KEYWORD, reportData)
+    : blob;
 }
 
 export async function getBestCaptureBlob(params: {
   previewElement: HTMLElement | null;
   exportWidth: number;
   preferredScales?: number[];
+  reportData?: string;
 }): Promise<Blob | null> {
-  const { previewElement, exportWidth, preferredScales = [4, 3] } = params;
+  const {
+    previewElement,
+    exportWidth,
+    preferredScales = [4, 3],
+    reportData,
+  } = params;
 
   for (const scale of preferredScales) {
     const blob = await renderPreviewBlob({
       previewElement,
       exportWidth,
       scale,
+      reportData,
     });
     if (isValidImageBlob(blob)) {
       return blob;
@@ -0,0 +1,138 @@
+import type { CorrectionStandard, DynoData } from "../types";
+
+export interface CorrectionStandardInfo {
+  value: CorrectionStandard;
+  label: string;
+}
+
+export interface ResolvedCorrection {
+  factor: number;
+  calculated: number | null;
+  isOverride: boolean;
+}
+
+export const CORRECTION_STANDARDS: CorrectionStandardInfo[] = [
+  { value: "SAE", label: "SAE J1349" },
+  { value: "DIN", label: "DIN 70020" },
+  { value: "STD", label: "STD (SAE J607)" },
+];
+
+const INHG_TO_HPA = 33.8639;
+const KPA_TO_HPA = 10;
+const PSI_TO_HPA = 68.9476;
+
+function parseLeadingNumber(text: string): number | null {
+  const match = text.replace(",", ".").match(/-?\d+(?:\.\d+)?/);
+  if (!match) {
+    return null;
+  }
+
+  const value = Number(match[0]);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function toCorrectionStandard(value: string): CorrectionStandard {
+  return CORRECTION_STANDARDS.some((item) => item.value === value)
+    ? (value as CorrectionStandard)
+    : "SAE";
+}
+
+export function getCorrectionStandardLabel(value: CorrectionStandard): string {
+  return (
+    CORRECTION_STANDARDS.find((item) => item.value === value)?.label ?? value
+  );
+}
+
+export function parseTemperatureC(text: string): number | null {
+  const value = parseLeadingNumber(text);
+  if (value === null) {
+    return null;
+  }
+
+  return /f\s*$/i.test(text.trim()) ? ((value - 32) * 5) / 9 : value;
+}
+
+export function parseHumidity(text: string): number | null {
+  const value = parseLeadingNumber(text);
+  return value === null ? null : Math.max(0, Math.min(100, value));
+}
+
+/** Reads hPa/mbar by default, with explicit or magnitude-based inHg/kPa/psi. */
+export function parsePressureHpa(text: string): number | null {
+  const value = parseLeadingNumber(text);
+  if (value === null || value <= 0) {
+    return null;
+  }
+
+  const unit = text.toLowerCase();
+  if (unit.includes("inhg") || (!/[a-z]/.test(unit) && value < 40)) {
+    return value * INHG_TO_HPA;
+  }
+
+  if (unit.includes("kpa") || (!/[a-z]/.test(unit) && value < 200)) {
+    return value * KPA_TO_HPA;
+  }
+
+  if (unit.includes("psi")) {
+    return value * PSI_TO_HPA;
+  }
+
+  return value;
+}
+
+// Magnus approximation of the saturation vapour pressure, in hPa.
+function vaporPressureHpa(tempC: number, humidity: number): number {
+  const saturation = 6.1078 * 10 ** ((7.5 * tempC) / (tempC + 237.3));
+  return (saturation * humidity) / 100;
+}
+
+export function calculateCorrectionFactor(params: {
+  standard: CorrectionStandard;
+  tempC: number;
+  humidity: number;
+  pressureHpa: number;
+}): number {
+  const { standard, tempC, humidity, pressureHpa } = params;
+  const tempK = tempC + 273.15;
+  const dryPressure = pressureHpa - vaporPressureHpa(tempC, humidity);
+
+  if (standard === "DIN") {
+    return (1013 / pressureHpa) * Math.sqrt(tempK / 293.15);
+  }
+
+  if (standard === "STD") {
+    return (1013.25 / dryPressure) * Math.sqrt(tempK / 288.71);
+  }
+
+  return 1.18 * (990 / dryPressure) * Math.sqrt(tempK / 298.15) - 0.18;
+}
+
+export function resolveCorrection(data: DynoData): ResolvedCorrection {
+  const tempC = parseTemperatureC(data.extTemp);
+  const humidity = parseHumidity(data.humidity);
+  const pressureHpa = parsePressureHpa(data.baroPressure);
+  const calculated =
+    tempC !== null && humidity !== null && pressureHpa !== null
+      ? calculateCorrectionFactor({
+          standard: data.correctionStandard,
+          tempC,
+          humidity,
+          pressureHpa,
+        })
+      : null;
+  const manual = parseLeadingNumber(data.correctionFactor);
+
+  if (data.correctionOverride || calculated === null) {
+    return {
+      factor: manual ?? calculated ?? 1,
+      calculated,
+      isOverride: data.correctionOverride && manual !== null,
+    };
+  }
+
+  return { factor: calculated, calculated, isOverride: false };
+}
+
+export function formatCorrectionFactor(value: number): string {
+  return value.toFixed(3);
+}
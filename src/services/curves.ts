@@ -0,0 +1,201 @@
+import type { CurveProfile, EngineProfileId, RunSample } from "../types";
+
+interface EngineProfilePreset {
+  id: EngineProfileId;
+  label: string;
+  baseTorque: number;
+  riseWidth: number;
+  spool: "turbo" | "linear" | "none";
+  defaults: Omit<CurveProfile, "profile">;
+}
+
+export const CURVE_LIMITS = {
+  onsetRpm: { min: 0, max: 9000, step: 100 },
+  plateauWidth: { min: 500, max: 9000, step: 100 },
+  falloff: { min: 0, max: 0.8, step: 0.01 },
+} as const;
+
+export const ENGINE_PROFILES: EngineProfilePreset[] = [
+  {
+    id: "na",
+    label: "Атмосферен",
+    baseTorque: 0.62,
+    riseWidth: 900,
+    spool: "none",
+    defaults: { onsetRpm: 2600, plateauWidth: 3400, falloff: 0.32 },
+  },
+  {
+    id: "small-turbo",
+    label: "Малко турбо",
+    baseTorque: 0.42,
+    riseWidth: 480,
+    spool: "turbo",
+    defaults: { onsetRpm: 2400, plateauWidth: 3000, falloff: 0.36 },
+  },
+  {
+    id: "big-turbo",
+    label: "Голямо турбо",
+    baseTorque: 0.28,
+    riseWidth: 760,
+    spool: "turbo",
+    defaults: { onsetRpm: 3600, plateauWidth: 3200, falloff: 0.3 },
+  },
+  {
+    id: "supercharger",
+    label: "Компресор",
+    baseTorque: 0.7,
+    riseWidth: 1000,
+    spool: "linear",
+    defaults: { onsetRpm: 1800, plateauWidth: 4400, falloff: 0.22 },
+  },
+  {
+    id: "rotary",
+    label: "Ванкел",
+    baseTorque: 0.5,
+    riseWidth: 1300,
+    spool: "turbo",
+    defaults: { onsetRpm: 3800, plateauWidth: 4200, falloff: 0.18 },
+  },
+  {
+    id: "electric",
+    label: "Електрически",
+    baseTorque: 1,
+    riseWidth: 1,
+    spool: "none",
+    defaults: { onsetRpm: 0, plateauWidth: 4500, falloff: 0.6 },
+  },
+];
+
+export const DEFAULT_CURVE_PROFILE: CurveProfile = {
+  profile: "big-turbo",
+  ...ENGINE_PROFILES[2].defaults,
+};
+
+const STOICH_AFR = 14.7;
+const FALL_WIDTH = 650;
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function getEngineProfile(id: EngineProfileId): EngineProfilePreset {
+  return ENGINE_PROFILES.find((item) => item.id === id) ?? ENGINE_PROFILES[2];
+}
+
+export function toEngineProfileId(value: unknown): EngineProfileId {
+  return ENGINE_PROFILES.some((item) => item.id === value)
+    ? (value as EngineProfileId)
+    : DEFAULT_CURVE_PROFILE.profile;
+}
+
+export function toCurveProfile(value: unknown): CurveProfile {
+  const source =
+    typeof value === "object" && value !== null
+      ? (value as Partial<CurveProfile>)
+      : {};
+  const profile = toEngineProfileId(source.profile);
+  const defaults = getEngineProfile(profile).defaults;
+  const pick = (key: keyof typeof CURVE_LIMITS) => {
+    const raw = Number(source[key]);
+    return Number.isFinite(raw)
+      ? clamp(raw, CURVE_LIMITS[key].min, CURVE_LIMITS[key].max)
+      : defaults[key];
+  };
+
+  return {
+    profile,
+    onsetRpm: pick("onsetRpm"),
+    plateauWidth: pick("plateauWidth"),
+    falloff: pick("falloff"),
+  };
+}
+
+function torqueShape(
+  rpm: number,
+  curve: CurveProfile,
+  preset: EngineProfilePreset,
+): number {
+  const kneeRpm = curve.onsetRpm + curve.plateauWidth;
+
+  if (preset.id === "electric") {
+    // Constant torque up to base speed, then constant power scaled by falloff.
+    return rpm <= kneeRpm
+      ? 1
+      : 1 - curve.falloff * (1 - kneeRpm / Math.max(rpm, 1));
+  }
+
+  const rise = sigmoid((rpm - curve.onsetRpm) / preset.riseWidth);
+  const fall = sigmoid((rpm - kneeRpm) / FALL_WIDTH);
+  return (
+    preset.baseTorque + (1 - preset.baseTorque) * rise - curve.falloff * fall
+  );
+}
+
+export function buildSyntheticSamples(params: {
+  whp: number;
+  wtq: number;
+  rpm: number;
+  psi: number;
+  afr: number;
+  curve: CurveProfile;
+}): RunSample[] {
+  const { whp, wtq, rpm, psi, afr, curve } = params;
+  const preset = getEngineProfile(curve.profile);
+  const minRpm = 0;
+  const maxRpm = Math.max(minRpm + 1200, rpm);
+  const steps = 220;
+
+  const tqRawSamples = Array.from({ length: steps + 1 }, (_, i) => {
+    const currentRpm = minRpm + (i / steps) * (maxRpm - minRpm);
+    return {
+      rpm: currentRpm,
+      tqRaw: Math.max(0, torqueShape(currentRpm, curve, preset)),
+    };
+  });
+
+  const tqRawPeak = Math.max(...tqRawSamples.map((item) => item.tqRaw));
+  const tqScale = wtq / (tqRawPeak || 1);
+
+  const hpRawSamples = tqRawSamples.map((item) => {
+    const tqValue = item.tqRaw * tqScale;
+    return {
+      rpm: item.rpm,
+      tqValue,
+      hpRawValue: (tqValue * item.rpm) / 5252,
+    };
+  });
+
+  const hpRawPeak = Math.max(...hpRawSamples.map((item) => item.hpRawValue));
+  const hpScale = whp / (hpRawPeak || 1);
+
+  // NA and EV profiles make no boost, so AFR stays flat across the pull.
+  const spool = (value: number) =>
+    preset.spool === "none"
+      ? 1
+      : preset.spool === "linear"
+        ? value / maxRpm
+        : sigmoid((value - (curve.onsetRpm - 600)) / 450);
+  const spoolPeak = spool(maxRpm) || 1;
+
+  return hpRawSamples.map((item) => {
+    const sample: RunSample = {
+      rpm: item.rpm,
+      hp: item.hpRawValue * hpScale,
+      tq: item.tqValue,
+    };
+
+    if (psi > 0 && preset.spool !== "none") {
+      sample.boost = (psi * spool(item.rpm)) / spoolPeak;
+    }
+
+    if (afr > 0) {
+      sample.afr = afr + (STOICH_AFR - afr) * (1 - spool(item.rpm));
+    }
+
+    return sample;
+  });
+}
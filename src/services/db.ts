@@ -0,0 +1,81 @@
+const DB_NAME = "faka-dyno";
+const DB_VERSION = 4;
+
+export const DB_STORES = {
+  reports: "reports",
+  vehicles: "vehicles",
+  uploads: "uploads",
+  operatorLog: "operatorLog",
+} as const;
+
+export type DbStore = (typeof DB_STORES)[keyof typeof DB_STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgradeDatabase(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains(DB_STORES.reports)) {
+    const reports = db.createObjectStore(DB_STORES.reports, { keyPath: "id" });
+    reports.createIndex("createdAt", "createdAt");
+  }
+
+  if (!db.objectStoreNames.contains(DB_STORES.vehicles)) {
+    db.createObjectStore(DB_STORES.vehicles, { keyPath: "plate" });
+  }
+
+  if (!db.objectStoreNames.contains(DB_STORES.uploads)) {
+    const uploads = db.createObjectStore(DB_STORES.uploads, { keyPath: "id" });
+    uploads.createIndex("createdAt", "createdAt");
+  }
+
+  if (!db.objectStoreNames.contains(DB_STORES.operatorLog)) {
+    const log = db.createObjectStore(DB_STORES.operatorLog, { keyPath: "id" });
+    log.createIndex("createdAt", "createdAt");
+  }
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error: unknown) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+
+  return dbPromise;
+}
+
+export async function withStore<T>(
+  storeName: DbStore,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const [result] = await Promise.all([
+    requestToPromise(run(transaction.objectStore(storeName))),
+    completed,
+  ]);
+
+  return result;
+}
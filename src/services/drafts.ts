@@ -0,0 +1,180 @@
+import type { DocMeta, DynoData, QuarantineEntry, ReportDraft } from "../types";
+import { migrateDocument, SCHEMA_VERSION } from "./migrations";
+import {
+  createDefaultState,
+  getStoredValue,
+  quarantineValues,
+  setStoredValue,
+  STORAGE_KEYS,
+  validatePersistedState,
+  type RejectedValue,
+} from "./storage";
+
+export interface StoredDrafts {
+  activeId: string;
+  drafts: ReportDraft[];
+}
+
+export interface LoadedDrafts extends StoredDrafts {
+  quarantined: QuarantineEntry[];
+  quarantineSaved: boolean;
+}
+
+export function createDraftId(): string {
+  return `draft-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createDocMeta(): DocMeta {
+  const unixId = Math.floor(Date.now() / 1000);
+  const createdAt = new Date(unixId * 1000).toLocaleString("bg-BG", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return { unixId, docId: createDocId(unixId), createdAt };
+}
+
+export function createDocId(unixId: number): string {
+  return `${unixId}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Opening the same file twice must not give two drafts one docId.
+export function toImportedDocMeta(meta: DocMeta): DocMeta {
+  return { ...meta, docId: createDocId(meta.unixId) };
+}
+
+function toDocMeta(value: unknown): DocMeta {
+  const meta = (value ?? {}) as Partial<DocMeta>;
+  return Number.isFinite(meta.unixId) && typeof meta.createdAt === "string"
+    ? {
+        unixId: Number(meta.unixId),
+        docId:
+          typeof meta.docId === "string" && meta.docId
+            ? meta.docId
+            : String(meta.unixId),
+        createdAt: meta.createdAt,
+      }
+    : createDocMeta();
+}
+
+function toStoredDraft(
+  value: unknown,
+  index: number,
+  defaultData: DynoData,
+  rejected: RejectedValue[],
+): ReportDraft | null {
+  const path = `drafts[${index}]`;
+  if (typeof value !== "object" || value === null) {
+    rejected.push({ path, reason: "Draft is not an object", value });
+    return null;
+  }
+
+  const draft = value as Record<string, unknown>;
+  const validated = validatePersistedState(
+    (draft.state ?? {}) as Record<string, unknown>,
+    defaultData,
+  );
+  validated.rejected.forEach((item) =>
+    rejected.push({ ...item, path: `${path}.state.${item.path}` }),
+  );
+
+  return {
+    id: typeof draft.id === "string" && draft.id ? draft.id : createDraftId(),
+    docMeta: toDocMeta(draft.docMeta),
+    state: validated.state,
+  };
+}
+
+function readStoredDocument(
+  key: string,
+  rejected: RejectedValue[],
+): Record<string, unknown> | null {
+  const raw = getStoredValue(key);
+  if (!raw) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    rejected.push({ path: "", reason: "Invalid JSON", value: raw });
+    return null;
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    rejected.push({
+      path: "",
+      reason: "Stored value is not an object",
+      value: raw,
+    });
+    return null;
+  }
+
+  try {
+    return migrateDocument(parsed as Record<string, unknown>);
+  } catch (error) {
+    rejected.push({ path: "", reason: (error as Error).message, value: raw });
+    return null;
+  }
+}
+
+export function getStoredDrafts(defaultData: DynoData): LoadedDrafts {
+  const rejected: RejectedValue[] = [];
+  // Single-report state from before drafts existed is migrated into the first tab.
+  const source = getStoredValue(STORAGE_KEYS.drafts)
+    ? STORAGE_KEYS.drafts
+    : STORAGE_KEYS.state;
+  const document = readStoredDocument(source, rejected);
+
+  if (document && !Array.isArray(document.drafts)) {
+    rejected.push({
+      path: "drafts",
+      reason: "Drafts are not a list",
+      value: document.drafts,
+    });
+  }
+
+  const drafts = (Array.isArray(document?.drafts) ? document.drafts : [])
+    .map((item, index) => toStoredDraft(item, index, defaultData, rejected))
+    .filter((item): item is ReportDraft => item !== null);
+
+  if (!drafts.length) {
+    drafts.push({
+      id: createDraftId(),
+      docMeta: createDocMeta(),
+      state: createDefaultState(defaultData),
+    });
+  }
+
+  const activeId = drafts.some((item) => item.id === document?.activeId)
+    ? (document?.activeId as string)
+    : drafts[0].id;
+
+  const quarantine = quarantineValues(source, rejected);
+
+  return {
+    activeId,
+    drafts,
+    quarantined: quarantine.entries,
+    quarantineSaved: quarantine.saved,
+  };
+}
+
+export function writeStoredDrafts(value: StoredDrafts): boolean {
+  return setStoredValue(
+    STORAGE_KEYS.drafts,
+    JSON.stringify({ schemaVersion: SCHEMA_VERSION, ...value }),
+  );
+}
+
+export function getDraftLabel(draft: ReportDraft, index: number): string {
+  return (
+    draft.state.data.plate.trim() ||
+    draft.state.data.model.trim() ||
+    `Чернова ${index + 1}`
+  );
+}
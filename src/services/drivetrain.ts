@@ -0,0 +1,70 @@
+import type { DynoData } from "../types";
+
+export type DrivetrainType = "AWD" | "RWD" | "FWD";
+
+export type DrivetrainLosses = Record<DrivetrainType, number>;
+
+export interface ResolvedDrivetrainLoss {
+  percent: number;
+  isOverride: boolean;
+}
+
+export const DRIVETRAIN_TYPES: DrivetrainType[] = ["AWD", "RWD", "FWD"];
+
+export const DEFAULT_DRIVETRAIN_LOSSES: DrivetrainLosses = {
+  AWD: 20,
+  RWD: 15,
+  FWD: 12,
+};
+
+const MAX_LOSS_PERCENT = 60;
+
+export function parseLossPercent(value: unknown): number | null {
+  const text = String(value ?? "")
+    .replace(",", ".")
+    .trim();
+  const parsed = Number(text);
+  if (!text || !Number.isFinite(parsed)) {
+    return null;
+  }
+
+  return Math.max(0, Math.min(MAX_LOSS_PERCENT, parsed));
+}
+
+export function parseDrivetrainLosses(json: string): DrivetrainLosses {
+  let parsed: Partial<Record<DrivetrainType, unknown>> = {};
+  try {
+    parsed = JSON.parse(json) || {};
+  } catch {
+    parsed = {};
+  }
+
+  return DRIVETRAIN_TYPES.reduce((acc, type) => {
+    acc[type] =
+      parseLossPercent(parsed[type]) ?? DEFAULT_DRIVETRAIN_LOSSES[type];
+    return acc;
+  }, {} as DrivetrainLosses);
+}
+
+export function resolveDrivetrainLoss(
+  data: DynoData,
+  losses: DrivetrainLosses,
+): ResolvedDrivetrainLoss {
+  const override = parseLossPercent(data.drivetrainLossOverride);
+  if (override !== null) {
+    return { percent: override, isOverride: true };
+  }
+
+  const type = DRIVETRAIN_TYPES.find((item) => item === data.drivetrain);
+  return {
+    percent: type ? losses[type] : DEFAULT_DRIVETRAIN_LOSSES.RWD,
+    isOverride: false,
+  };
+}
+
+export function estimateCrankValue(
+  wheelValue: number,
+  lossPercent: number,
+): number {
+  return wheelValue / (1 - lossPercent / 100);
+}
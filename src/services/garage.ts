@@ -0,0 +1,89 @@
+import type { DynoData, LibraryReport, VehicleProfile } from "../types";
+import { DB_STORES, withStore } from "./db";
+import { findRun, getRunPeaks } from "./runData";
+
+export interface VehicleReportPoint {
+  report: LibraryReport;
+  whp: number;
+  wtq: number;
+}
+
+export const VEHICLE_FIELDS = [
+  "model",
+  "engine",
+  "drivetrain",
+  "owner",
+] as const;
+
+export function normalizePlate(plate: string): string {
+  return plate.toUpperCase().replace(/\s+/g, "");
+}
+
+export async function listVehicles(): Promise<VehicleProfile[]> {
+  const vehicles = await withStore<VehicleProfile[]>(
+    DB_STORES.vehicles,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return vehicles.sort((a, b) => a.plate.localeCompare(b.plate));
+}
+
+export async function putVehicle(vehicle: VehicleProfile): Promise<void> {
+  await withStore(DB_STORES.vehicles, "readwrite", (store) =>
+    store.put(vehicle),
+  );
+}
+
+export async function deleteVehicle(plate: string): Promise<void> {
+  await withStore(DB_STORES.vehicles, "readwrite", (store) =>
+    store.delete(plate),
+  );
+}
+
+export function toVehicleProfile(data: DynoData): VehicleProfile | null {
+  const plate = normalizePlate(data.plate);
+  if (!plate) {
+    return null;
+  }
+
+  return {
+    plate,
+    model: data.model,
+    engine: data.engine,
+    drivetrain: data.drivetrain,
+    owner: data.owner,
+    updatedAt: Date.now(),
+  };
+}
+
+export function findVehicle(
+  vehicles: VehicleProfile[],
+  plate: string,
+): VehicleProfile | null {
+  const key = normalizePlate(plate);
+  return vehicles.find((vehicle) => vehicle.plate === key) ?? null;
+}
+
+export function differsFromVehicle(
+  data: DynoData,
+  vehicle: VehicleProfile,
+): boolean {
+  return VEHICLE_FIELDS.some((field) => data[field] !== vehicle[field]);
+}
+
+/** Oldest first, so the list reads as the car's tuning progression. */
+export function getVehicleReports(
+  reports: LibraryReport[],
+  plate: string,
+): VehicleReportPoint[] {
+  const key = normalizePlate(plate);
+  return reports
+    .filter((report) => normalizePlate(report.state.data.plate) === key)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((report) => {
+      const { runs, selectedRunId, data } = report.state;
+      const run = findRun(runs, selectedRunId, runs.at(-1) ?? null);
+      const peaks = run ? getRunPeaks(run.samples) : data;
+      return { report, whp: peaks.whp, wtq: peaks.wtq };
+    });
+}
@@ -0,0 +1,133 @@
+import type { RunSample } from "../types";
+
+export interface AxisLock {
+  maxRpm: number;
+  power: number;
+  torque: number;
+}
+
+export interface AxisSettings {
+  startRpm: number;
+  splitAxes: boolean;
+  lock: AxisLock | null;
+}
+
+export interface NiceScale {
+  max: number;
+  step: number;
+  ticks: number[];
+}
+
+export const DEFAULT_AXIS_SETTINGS: AxisSettings = {
+  startRpm: 0,
+  splitAxes: false,
+  lock: null,
+};
+
+const MAX_START_RPM = 8000;
+const MIN_RPM_SPAN = 1200;
+const NICE_MULTIPLIERS = [1, 2, 2.5, 5, 10];
+
+function toPositive(value: unknown): number | null {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function parseStartRpm(value: unknown): number {
+  const parsed = Number(String(value ?? "").trim());
+  if (!Number.isFinite(parsed)) {
+    return DEFAULT_AXIS_SETTINGS.startRpm;
+  }
+
+  return Math.round(Math.max(0, Math.min(MAX_START_RPM, parsed)) / 100) * 100;
+}
+
+export function parseAxisSettings(json: string): AxisSettings {
+  let parsed: Partial<Record<keyof AxisSettings, unknown>> = {};
+  try {
+    parsed = JSON.parse(json) || {};
+  } catch {
+    parsed = {};
+  }
+
+  const lock =
+    typeof parsed.lock === "object" && parsed.lock !== null
+      ? (parsed.lock as Partial<Record<keyof AxisLock, unknown>>)
+      : null;
+  const maxRpm = toPositive(lock?.maxRpm);
+  const power = toPositive(lock?.power);
+  const torque = toPositive(lock?.torque);
+
+  return {
+    startRpm: parseStartRpm(parsed.startRpm),
+    splitAxes: parsed.splitAxes === true,
+    lock:
+      maxRpm !== null && power !== null && torque !== null
+        ? { maxRpm, power, torque }
+        : null,
+  };
+}
+
+export function getNiceStep(span: number, targetTicks: number): number {
+  const rough = span / Math.max(1, targetTicks);
+  const magnitude = 10 ** Math.floor(Math.log10(rough || 1));
+  const multiplier =
+    NICE_MULTIPLIERS.find((item) => item * magnitude >= rough) ?? 10;
+  return multiplier * magnitude;
+}
+
+/** Rounds `max` up to a tick boundary; `headroom` leaves space above the peak. */
+export function buildNiceScale(
+  max: number,
+  targetTicks = 6,
+  headroom = 1.08,
+): NiceScale {
+  const step = getNiceStep(Math.max(max * headroom, 1), targetTicks);
+  const niceMax = Math.max(step, Math.ceil((max * headroom) / step) * step);
+  const ticks = Array.from(
+    { length: Math.round(niceMax / step) + 1 },
+    (_, index) => Number((index * step).toFixed(6)),
+  );
+  return { max: niceMax, step, ticks };
+}
+
+export function buildRpmTicks(minRpm: number, maxRpm: number): number[] {
+  const step = getNiceStep(maxRpm - minRpm, 8);
+  const first = Math.ceil(minRpm / step) * step;
+  return Array.from(
+    { length: Math.floor((maxRpm - first) / step) + 1 },
+    (_, index) => first + index * step,
+  );
+}
+
+export function getRpmRange(
+  sampleMaxRpm: number,
+  settings: AxisSettings,
+): { minRpm: number; maxRpm: number } {
+  const maxRpm = Math.max(settings.lock?.maxRpm ?? sampleMaxRpm, MIN_RPM_SPAN);
+  const minRpm = Math.max(
+    0,
+    Math.min(settings.startRpm, maxRpm - MIN_RPM_SPAN),
+  );
+  return { minRpm, maxRpm };
+}
+
+/** Same RPM window the graph draws, so summaries match what is on screen. */
+export function clipToRpmRange(
+  samples: RunSample[],
+  settings: AxisSettings,
+  sampleMaxRpm: number,
+): RunSample[] {
+  const { minRpm, maxRpm } = getRpmRange(sampleMaxRpm, settings);
+  return samples.filter(
+    (sample) => sample.rpm >= minRpm && sample.rpm <= maxRpm,
+  );
+}
+
+export function createAxisLock(samples: RunSample[]): AxisLock {
+  return {
+    maxRpm: Math.max(MIN_RPM_SPAN, ...samples.map((sample) => sample.rpm)),
+    power: Math.max(1, ...samples.map((sample) => sample.hp)),
+    torque: Math.max(1, ...samples.map((sample) => sample.tq)),
+  };
+}
@@ -0,0 +1,84 @@
+import type { LibraryReport } from "../types";
+import { DB_STORES, withStore } from "./db";
+
+export interface LibraryFilters {
+  plate: string;
+  owner: string;
+  operator: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+export const EMPTY_LIBRARY_FILTERS: LibraryFilters = {
+  plate: "",
+  owner: "",
+  operator: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+export function createReportId(): string {
+  return `report-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export async function listReports(): Promise<LibraryReport[]> {
+  const reports = await withStore<LibraryReport[]>(
+    DB_STORES.reports,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return reports.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getReport(
+  id: string,
+): Promise<LibraryReport | undefined> {
+  return withStore<LibraryReport | undefined>(
+    DB_STORES.reports,
+    "readonly",
+    (store) => store.get(id),
+  );
+}
+
+export async function putReport(report: LibraryReport): Promise<void> {
+  await withStore(DB_STORES.reports, "readwrite", (store) => store.put(report));
+}
+
+export async function deleteReport(id: string): Promise<void> {
+  await withStore(DB_STORES.reports, "readwrite", (store) => store.delete(id));
+}
+
+function matchesText(value: string, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return !needle || value.toLowerCase().includes(needle);
+}
+
+// Date inputs give local yyyy-mm-dd values; compare against local day bounds.
+function toDayStart(value: string): number | null {
+  const time = value ? new Date(`${value}T00:00:00`).getTime() : NaN;
+  return Number.isFinite(time) ? time : null;
+}
+
+export function isWithinDays(
+  time: number,
+  dateFrom: string,
+  dateTo: string,
+): boolean {
+  const from = toDayStart(dateFrom);
+  const toStart = toDayStart(dateTo);
+  const to = toStart === null ? null : toStart + 24 * 60 * 60 * 1000;
+  return (from === null || time >= from) && (to === null || time < to);
+}
+
+export function filterReports(
+  reports: LibraryReport[],
+  filters: LibraryFilters,
+): LibraryReport[] {
+  return reports.filter(
+    ({ state, createdAt }) =>
+      matchesText(state.data.plate, filters.plate) &&
+      matchesText(state.data.owner, filters.owner) &&
+      matchesText(state.data.operator, filters.operator) &&
+      isWithinDays(createdAt, filters.dateFrom, filters.dateTo),
+  );
+}
@@ -0,0 +1,43 @@
+import type { DynoData, MetricKey, SliderItem } from "../types";
+
+export const sliderConfig: SliderItem[] = [
+  { key: "whp", label: "Max HP", min: 0, max: 2200, step: 1 },
+  { key: "wtq", label: "Max TQ", min: 0, max: 1200, step: 1 },
+  { key: "psi", label: "Boost PSI", min: 0, max: 40, step: 0.1 },
+  { key: "afr", label: "AFR", min: 0, max: 14, step: 0.1 },
+  { key: "rpm", label: "Max RPM", min: 0, max: 12000, step: 50 },
+];
+
+const DECIMAL_METRICS = new Set<MetricKey>(["psi", "afr"]);
+
+export const METRIC_BOUNDS: Record<MetricKey, SliderItem> = sliderConfig.reduce(
+  (acc, item) => {
+    acc[item.key] = item;
+    return acc;
+  },
+  {} as Record<MetricKey, SliderItem>,
+);
+
+export const METRIC_KEYS = sliderConfig.map((item) => item.key);
+
+export function isDecimalMetric(key: MetricKey): boolean {
+  return DECIMAL_METRICS.has(key);
+}
+
+export function isMetricKey(key: keyof DynoData): key is MetricKey {
+  return key in METRIC_BOUNDS;
+}
+
+export function normalizeMetricValue(key: MetricKey, value: number): number {
+  return isDecimalMetric(key) ? Number(value.toFixed(1)) : Math.round(value);
+}
+
+export function isMetricInRange(key: MetricKey, value: unknown): boolean {
+  const bounds = METRIC_BOUNDS[key];
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= bounds.min &&
+    value <= bounds.max
+  );
+}
@@ -0,0 +1,57 @@
+export const SCHEMA_VERSION = 3;
+
+type StoredDocument = Record<string, unknown>;
+type Migration = (document: StoredDocument) => StoredDocument;
+
+// Keyed by the version each migration upgrades from. Version 1 is the
+// single-report state saved under `faka-dyno-state-v1`.
+const MIGRATIONS: Record<number, Migration> = {
+  1: ({ run, ...state }) => {
+    const data =
+      typeof state.data === "object" && state.data !== null
+        ? (state.data as Record<string, unknown>)
+        : null;
+
+    return {
+      ...state,
+      // Multi-run overlays replaced the single saved `run`.
+      runs: Array.isArray(state.runs) ? state.runs : run ? [run] : [],
+      ...(data && {
+        data: {
+          ...data,
+          // Factors typed before the calculator existed are kept as overrides.
+          correctionOverride:
+            typeof data.correctionOverride === "boolean"
+              ? data.correctionOverride
+              : typeof data.correctionFactor === "string",
+        },
+      }),
+    };
+  },
+  2: (state) => ({ activeId: null, drafts: [{ state }] }),
+};
+
+export function getSchemaVersion(document: StoredDocument): number {
+  if (Number.isInteger(document.schemaVersion)) {
+    return document.schemaVersion as number;
+  }
+
+  // Drafts were written without a version tag before schemas existed.
+  return Array.isArray(document.drafts) ? 3 : 1;
+}
+
+export function migrateDocument(document: StoredDocument): StoredDocument {
+  const version = getSchemaVersion(document);
+  if (version < 1 || version > SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported schema version ${version} (supported: 1–${SCHEMA_VERSION}).`,
+    );
+  }
+
+  let current = document;
+  for (let step = version; step < SCHEMA_VERSION; step += 1) {
+    current = MIGRATIONS[step](current);
+  }
+
+  return { ...current, schemaVersion: SCHEMA_VERSION };
+}
@@ -0,0 +1,151 @@
+import type { LogAction, OperatorLogEntry } from "../types";
+import { DB_STORES, withStore } from "./db";
+import { isWithinDays } from "./library";
+
+export interface OperatorLogFilters {
+  operator: string;
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface OperatorSummary {
+  operator: string;
+  reports: number;
+  actions: number;
+  bestWhp: number;
+  bestWtq: number;
+}
+
+export const LOG_ACTION_LABELS: Record<LogAction, string> = {
+  download: "Изтегляне",
+  copy: "Копиране",
+  upload: "Качване",
+};
+
+const CSV_COLUMNS: {
+  header: string;
+  value: (entry: OperatorLogEntry) => string;
+}[] = [
+  { header: "date", value: (entry) => new Date(entry.createdAt).toISOString() },
+  { header: "action", value: (entry) => entry.action },
+  { header: "operator", value: (entry) => entry.operator },
+  { header: "plate", value: (entry) => entry.plate },
+  { header: "model", value: (entry) => entry.model },
+  { header: "report_number", value: (entry) => entry.reportNumber ?? "" },
+  { header: "whp", value: (entry) => String(entry.whp) },
+  { header: "wtq_lbft", value: (entry) => String(entry.wtq) },
+  { header: "boost_psi", value: (entry) => String(entry.psi) },
+  { header: "rpm", value: (entry) => String(entry.rpm) },
+  { header: "url", value: (entry) => entry.url ?? "" },
+];
+
+export function createLogEntry(
+  params: Omit<OperatorLogEntry, "id" | "createdAt">,
+): OperatorLogEntry {
+  const now = Date.now();
+  return {
+    ...params,
+    id: `log-${now.toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    createdAt: now,
+  };
+}
+
+export async function listLogEntries(): Promise<OperatorLogEntry[]> {
+  const entries = await withStore<OperatorLogEntry[]>(
+    DB_STORES.operatorLog,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function putLogEntry(entry: OperatorLogEntry): Promise<void> {
+  await withStore(DB_STORES.operatorLog, "readwrite", (store) =>
+    store.put(entry),
+  );
+}
+
+export async function setLogEntryUrl(
+  id: string,
+  url: string,
+): Promise<OperatorLogEntry | null> {
+  const entry = await withStore<OperatorLogEntry | undefined>(
+    DB_STORES.operatorLog,
+    "readonly",
+    (store) => store.get(id),
+  );
+  if (!entry) {
+    return null;
+  }
+
+  const updated = { ...entry, url };
+  await putLogEntry(updated);
+  return updated;
+}
+
+export function getToday(): string {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, "0"),
+    String(now.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+export function getLogOperators(entries: OperatorLogEntry[]): string[] {
+  return [...new Set(entries.map((entry) => entry.operator))].sort((a, b) =>
+    a.localeCompare(b),
+  );
+}
+
+export function filterLogEntries(
+  entries: OperatorLogEntry[],
+  filters: OperatorLogFilters,
+): OperatorLogEntry[] {
+  return entries.filter(
+    (entry) =>
+      (!filters.operator || entry.operator === filters.operator) &&
+      isWithinDays(entry.createdAt, filters.dateFrom, filters.dateTo),
+  );
+}
+
+export function summarizeLog(entries: OperatorLogEntry[]): OperatorSummary[] {
+  const groups = new Map<string, OperatorLogEntry[]>();
+  entries.forEach((entry) => {
+    groups.set(entry.operator, [...(groups.get(entry.operator) ?? []), entry]);
+  });
+
+  return [...groups.entries()]
+    .map(([operator, items]) => ({
+      operator,
+      // A report downloaded and then uploaded is still one pull.
+      reports: new Set(items.map((item) => item.reportNumber ?? item.id)).size,
+      actions: items.length,
+      bestWhp: Math.max(...items.map((item) => item.whp)),
+      bestWtq: Math.max(...items.map((item) => item.wtq)),
+    }))
+    .sort((a, b) => b.reports - a.reports);
+}
+
+// Spreadsheets run cells starting with these as formulas; plain numbers are safe.
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value)
+    ? `'${value}`
+    : value;
+}
+
+function escapeCsvValue(raw: string): string {
+  const value = neutralizeFormula(raw);
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function buildLogCsv(entries: OperatorLogEntry[]): string {
+  const rows = [
+    CSV_COLUMNS.map((column) => column.header),
+    ...entries.map((entry) => CSV_COLUMNS.map((column) => column.value(entry))),
+  ];
+  // The BOM lets spreadsheet apps detect UTF-8 for Cyrillic names.
+  return `\uFEFF${rows
+    .map((row) => row.map(escapeCsvValue).join(","))
+    .join("\r\n")}`;
+}
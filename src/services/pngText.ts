@@ -0,0 +1,150 @@
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const TEXT_CHUNK_TYPES = new Set(["tEXt", "iTXt"]);
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+interface PngChunk {
+  type: string;
+  data: Bytes;
+  bytes: Bytes;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readChunks(bytes: Bytes): PngChunk[] {
+  if (!PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+    throw new Error("Not a PNG image.");
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      throw new Error("PNG image is truncated.");
+    }
+
+    chunks.push({
+      type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      bytes: bytes.subarray(offset, end),
+    });
+    offset = end;
+  }
+
+  return chunks;
+}
+
+function buildChunk(type: string, data: Uint8Array): Bytes {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(
+    Array.from(type, (char) => char.charCodeAt(0)),
+    4,
+  );
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+function readKeyword(data: Uint8Array): { keyword: string; rest: number } {
+  const separator = data.indexOf(0);
+  return separator < 0
+    ? { keyword: "", rest: data.length }
+    : {
+        keyword: String.fromCharCode(...data.subarray(0, separator)),
+        rest: separator + 1,
+      };
+}
+
+// iTXt keeps the text as UTF-8, so Cyrillic report fields survive intact.
+function buildTextChunk(keyword: string, text: string): Bytes {
+  const encoder = new TextEncoder();
+  const header = encoder.encode(`${keyword}\0`);
+  const body = encoder.encode(text);
+  // Compression flag, compression method, then empty language and translated keyword.
+  const flags = new Uint8Array([0, 0, 0, 0]);
+  const data = new Uint8Array(header.length + flags.length + body.length);
+  data.set(header, 0);
+  data.set(flags, header.length);
+  data.set(body, header.length + flags.length);
+  return buildChunk("iTXt", data);
+}
+
+function readTextChunk(chunk: PngChunk): { keyword: string; text: string } {
+  const { keyword, rest } = readKeyword(chunk.data);
+  if (chunk.type === "tEXt") {
+    return {
+      keyword,
+      text: new TextDecoder("latin1").decode(chunk.data.subarray(rest)),
+    };
+  }
+
+  if (chunk.data[rest] !== 0) {
+    throw new Error(`Compressed PNG text "${keyword}" is not supported.`);
+  }
+
+  // Skip the compression bytes, language tag and translated keyword.
+  let offset = rest + 2;
+  offset = chunk.data.indexOf(0, offset) + 1;
+  offset = chunk.data.indexOf(0, offset) + 1;
+  return {
+    keyword,
+    text: new TextDecoder().decode(chunk.data.subarray(offset)),
+  };
+}
+
+export async function embedPngText(
+  blob: Blob,
+  keyword: string,
+  text: string,
+): Promise<Blob> {
+  const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+  const parts = chunks
+    .filter(
+      (chunk) =>
+        !TEXT_CHUNK_TYPES.has(chunk.type) ||
+        readKeyword(chunk.data).keyword !== keyword,
+    )
+    .flatMap((chunk) =>
+      chunk.type === "IEND"
+        ? [buildTextChunk(keyword, text), chunk.bytes]
+        : [chunk.bytes],
+    );
+
+  return new Blob([new Uint8Array(PNG_SIGNATURE), ...parts], {
+    type: "image/png",
+  });
+}
+
+export async function readPngText(
+  blob: Blob,
+  keyword: string,
+): Promise<string | null> {
+  const chunks = readChunks(new Uint8Array(await blob.arrayBuffer()));
+  const match = chunks.find(
+    (chunk) =>
+      TEXT_CHUNK_TYPES.has(chunk.type) &&
+      readKeyword(chunk.data).keyword === keyword,
+  );
+
+  return match ? readTextChunk(match).text : null;
+}
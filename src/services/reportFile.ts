@@ -0,0 +1,256 @@
+import type {
+  DocMeta,
+  DynoData,
+  DynoRun,
+  MetricKey,
+  PersistedState,
+} from "../types";
+import { CORRECTION_STANDARDS } from "./correction";
+import { METRIC_BOUNDS, METRIC_KEYS, isMetricInRange } from "./metrics";
+import { readPngText } from "./pngText";
+import { toPersistedState } from "./storage";
+
+export const REPORT_FORMAT = "faka-dyno-report";
+export const REPORT_VERSION = 1;
+export const REPORT_FILE_EXTENSION = ".faka.json";
+export const REPORT_PNG_KEYWORD = "faka-dyno-report";
+
+type DisplayKey =
+  | "curveProfile"
+  | "pinnedRpm"
+  | "showHp"
+  | "showTq"
+  | "showBoost"
+  | "showAfr"
+  | "showPeaks"
+  | "showPowerband"
+  | "showArea";
+
+export type ReportDisplay = Pick<PersistedState, DisplayKey>;
+
+export interface ReportBranding {
+  shopName: string;
+  appVersion: string;
+}
+
+export interface ReportDocument {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  branding: ReportBranding;
+  docMeta: DocMeta;
+  reportNumber: string | null;
+  data: DynoData;
+  display: ReportDisplay;
+  runs: {
+    items: DynoRun[];
+    baselineRunId: string | null;
+    selectedRunId: string | null;
+  };
+}
+
+export interface ImportedReport {
+  state: PersistedState;
+  docMeta: DocMeta;
+  branding: ReportBranding;
+}
+
+const TEXT_FIELDS: (keyof DynoData)[] = [
+  "model",
+  "engine",
+  "plate",
+  "drivetrain",
+  "drivetrainLossOverride",
+  "extTemp",
+  "humidity",
+  "baroPressure",
+  "correctionFactor",
+  "operator",
+  "owner",
+  "mechanicNotes",
+];
+
+export function createReportDocument(params: {
+  state: PersistedState;
+  docMeta: DocMeta;
+  branding: ReportBranding;
+}): ReportDocument {
+  const { state, docMeta, branding } = params;
+  return {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    branding,
+    docMeta,
+    reportNumber: state.reportNumber,
+    data: state.data,
+    display: {
+      curveProfile: state.curveProfile,
+      pinnedRpm: state.pinnedRpm,
+      showHp: state.showHp,
+      showTq: state.showTq,
+      showBoost: state.showBoost,
+      showAfr: state.showAfr,
+      showPeaks: state.showPeaks,
+      showPowerband: state.showPowerband,
+      showArea: state.showArea,
+    },
+    runs: {
+      items: state.runs,
+      baselineRunId: state.baselineRunId,
+      selectedRunId: state.selectedRunId,
+    },
+  };
+}
+
+export function serializeReportDocument(report: ReportDocument): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function asRecord(value: unknown, field: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid report file: "${field}" must be an object.`);
+  }
+
+  return value as Record<string, unknown>;
+}
+
+function validateData(value: unknown): void {
+  const data = asRecord(value, "data");
+
+  TEXT_FIELDS.forEach((key) => {
+    if (typeof data[key] !== "string") {
+      throw new Error(`Invalid report file: "data.${key}" must be text.`);
+    }
+  });
+
+  if (
+    !CORRECTION_STANDARDS.some((item) => item.value === data.correctionStandard)
+  ) {
+    throw new Error(
+      `Unknown correction standard "${String(data.correctionStandard)}".`,
+    );
+  }
+
+  if (typeof data.correctionOverride !== "boolean") {
+    throw new Error(
+      'Invalid report file: "data.correctionOverride" must be true or false.',
+    );
+  }
+
+  METRIC_KEYS.forEach((key: MetricKey) => {
+    if (!isMetricInRange(key, data[key])) {
+      const { min, max } = METRIC_BOUNDS[key];
+      throw new Error(
+        `Metric "${key}" is out of range: ${String(data[key])} (allowed ${min}–${max}).`,
+      );
+    }
+  });
+}
+
+function validateRuns(value: unknown): void {
+  const runs = asRecord(value, "runs");
+  if (!Array.isArray(runs.items)) {
+    throw new Error('Invalid report file: "runs.items" must be a list.');
+  }
+
+  runs.items.forEach((item, index) => {
+    const run = asRecord(item, `runs.items[${index}]`);
+    const samples = Array.isArray(run.samples) ? run.samples : [];
+    const valid =
+      samples.length >= 2 &&
+      samples.every(
+        (sample) =>
+          Number.isFinite(sample?.rpm) &&
+          Number.isFinite(sample?.hp) &&
+          Number.isFinite(sample?.tq),
+      );
+    if (typeof run.id !== "string" || !valid) {
+      throw new Error(
+        `Run "${String(run.name ?? index + 1)}" has missing or invalid samples.`,
+      );
+    }
+  });
+}
+
+function validateDocMeta(value: unknown): DocMeta {
+  const meta = asRecord(value, "docMeta");
+  if (!Number.isFinite(meta.unixId) || typeof meta.createdAt !== "string") {
+    throw new Error('Invalid report file: "docMeta" is incomplete.');
+  }
+
+  return {
+    unixId: Number(meta.unixId),
+    docId:
+      typeof meta.docId === "string" && meta.docId
+        ? meta.docId
+        : String(meta.unixId),
+    createdAt: meta.createdAt,
+  };
+}
+
+export function parseReportDocument(
+  text: string,
+  defaultData: DynoData,
+): ImportedReport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid report file: not valid JSON.");
+  }
+
+  const source = asRecord(parsed, "document");
+  if (source.format !== REPORT_FORMAT) {
+    throw new Error("Invalid report file: not a FAKA dyno report.");
+  }
+
+  if (
+    !Number.isInteger(source.version) ||
+    (source.version as number) < 1 ||
+    (source.version as number) > REPORT_VERSION
+  ) {
+    throw new Error(
+      `Unsupported report version ${String(source.version)} (supported: 1–${REPORT_VERSION}).`,
+    );
+  }
+
+  validateData(source.data);
+  validateRuns(source.runs);
+  const docMeta = validateDocMeta(source.docMeta);
+  const display = asRecord(source.display ?? {}, "display");
+  const runs = source.runs as Record<string, unknown>;
+  const branding = asRecord(source.branding ?? {}, "branding");
+
+  return {
+    docMeta,
+    branding: {
+      shopName: String(branding.shopName ?? ""),
+      appVersion: String(branding.appVersion ?? ""),
+    },
+    state: toPersistedState(
+      {
+        ...display,
+        reportId: null,
+        reportNumber: source.reportNumber ?? null,
+        data: source.data,
+        runs: runs.items,
+        baselineRunId: runs.baselineRunId,
+        selectedRunId: runs.selectedRunId,
+      },
+      defaultData,
+    ),
+  };
+}
+
+export async function readReportFromImage(
+  blob: Blob,
+  defaultData: DynoData,
+): Promise<ImportedReport> {
+  const text = await readPngText(blob, REPORT_PNG_KEYWORD);
+  if (!text) {
+    throw new Error("Image has no embedded report data.");
+  }
+
+  return parseReportDocument(text, defaultData);
+}
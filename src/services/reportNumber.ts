@@ -0,0 +1,88 @@
+import { getStoredValue, setStoredValue, STORAGE_KEYS } from "./storage";
+
+export const DEFAULT_REPORT_NUMBER_FORMAT = "FAKA-{YYYY}-{NNNNN}";
+
+// Last issued sequence per period, so switching formats back and forth never
+// reuses a number.
+type ReportCounters = Record<string, number>;
+
+const SEQUENCE_TOKEN = /\{(N+)\}/g;
+
+function formatDateTokens(text: string, date: Date): string {
+  const year = String(date.getFullYear());
+  return text
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, "0"));
+}
+
+// The sequence restarts whenever anything but the sequence part changes,
+// e.g. a new year for `FAKA-{YYYY}-{NNNNN}`.
+function getPeriod(format: string, date: Date): string {
+  return formatDateTokens(format.replace(SEQUENCE_TOKEN, ""), date);
+}
+
+function readCounters(): ReportCounters {
+  try {
+    const parsed = JSON.parse(getStoredValue(STORAGE_KEYS.reportCounter));
+    if (typeof parsed === "object" && parsed !== null) {
+      return Object.fromEntries(
+        Object.entries(parsed).filter(
+          (entry): entry is [string, number] =>
+            Number.isInteger(entry[1]) && (entry[1] as number) >= 0,
+        ),
+      );
+    }
+  } catch {
+    // Missing or broken counters start from the beginning.
+  }
+
+  return {};
+}
+
+function writeCounter(period: string, last: number): void {
+  setStoredValue(
+    STORAGE_KEYS.reportCounter,
+    JSON.stringify({ ...readCounters(), [period]: last }),
+  );
+}
+
+export function isValidReportNumberFormat(format: string): boolean {
+  return /\{N+\}/.test(format);
+}
+
+export function toReportNumberFormat(value: string): string {
+  const format = value.trim();
+  return isValidReportNumberFormat(format)
+    ? format
+    : DEFAULT_REPORT_NUMBER_FORMAT;
+}
+
+export function formatReportNumber(
+  format: string,
+  sequence: number,
+  date = new Date(),
+): string {
+  return formatDateTokens(format, date).replace(
+    SEQUENCE_TOKEN,
+    (_, digits: string) => String(sequence).padStart(digits.length, "0"),
+  );
+}
+
+export function getNextSequence(format: string, date = new Date()): number {
+  return (readCounters()[getPeriod(format, date)] ?? 0) + 1;
+}
+
+export function setNextSequence(
+  format: string,
+  next: number,
+  date = new Date(),
+): void {
+  writeCounter(getPeriod(format, date), Math.max(0, Math.floor(next) - 1));
+}
+
+export function assignReportNumber(format: string, date = new Date()): string {
+  const sequence = getNextSequence(format, date);
+  writeCounter(getPeriod(format, date), sequence);
+  return formatReportNumber(format, sequence, date);
+}
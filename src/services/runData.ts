@@ -0,0 +1,358 @@
+import type { DynoRun, RunSample, RunStyle } from "../types";
+
+export type PowerUnit = "hp" | "kw";
+export type TorqueUnit = "lbft" | "nm";
+export type BoostUnit = "psi" | "bar" | "kpa" | "mapKpa";
+export type MixtureUnit = "afr" | "lambda";
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface RunColumnMapping {
+  rpm: number;
+  power: number;
+  torque: number;
+  boost: number;
+  afr: number;
+  powerUnit: PowerUnit;
+  torqueUnit: TorqueUnit;
+  boostUnit: BoostUnit;
+  mixtureUnit: MixtureUnit;
+}
+
+export interface RunPeaks {
+  whp: number;
+  wtq: number;
+  rpm: number;
+  psi?: number;
+  afr?: number;
+}
+
+export const RUN_STYLES: RunStyle[] = [
+  { hp: "#e61e1e", tq: "#f2994a", dash: "" },
+  { hp: "#3b82f6", tq: "#7dd3fc", dash: "12 6" },
+  { hp: "#22c55e", tq: "#a3e635", dash: "4 5" },
+  { hp: "#a855f7", tq: "#e879f9", dash: "14 5 3 5" },
+  { hp: "#eab308", tq: "#fde68a", dash: "2 6" },
+];
+
+const KW_TO_HP = 1.341022;
+const NM_TO_LBFT = 0.737562;
+const HP_TORQUE_CONSTANT = 5252;
+const BAR_TO_PSI = 14.5038;
+const KPA_TO_PSI = 0.145038;
+export const STANDARD_BARO_KPA = 101.3;
+const STOICH_AFR = 14.7;
+
+const RPM_HEADER = /(rpm|engine\s*speed|revs|обороти)/i;
+const POWER_HEADER = /(w?hp|bhp|power|kw|мощност)/i;
+const TORQUE_HEADER = /(w?tq|torque|nm|lb[\s.-]*ft|ft[\s.-]*lb|въртящ|момент)/i;
+// "bar" must stand alone so "baro" pressure columns are not taken as boost.
+const BAR_UNIT = /(?<![a-z])bar(?![a-z])/i;
+const BOOST_HEADER = new RegExp(
+  `(boost|map|psi|${BAR_UNIT.source}|kpa|налягане)`,
+  "i",
+);
+const ABSOLUTE_HEADER = /(map|abs)/i;
+const BARO_HEADER = /(baro|atm|барометр)/i;
+const MIXTURE_HEADER = /(afr|a\/f|lambda|λ|смес)/i;
+
+export type CsvImportProblem = "noSamples" | "noPowerColumn" | "tooFewSamples";
+
+export class CsvImportError extends Error {
+  readonly problem: CsvImportProblem;
+
+  constructor(problem: CsvImportProblem, message: string) {
+    super(message);
+    this.name = "CsvImportError";
+    this.problem = problem;
+  }
+}
+
+const CSV_PROBLEM_MESSAGES: Record<CsvImportProblem, string> = {
+  noSamples: "CSV файлът трябва да има заглавен ред и поне един ред с данни.",
+  noPowerColumn: "Избери поне една колона за мощност или въртящ момент.",
+  tooFewSamples: "CSV файлът има по-малко от два използваеми реда.",
+};
+
+/** Bulgarian toast text for CSV import failures. */
+export function describeCsvError(error: unknown): string {
+  return error instanceof CsvImportError
+    ? CSV_PROBLEM_MESSAGES[error.problem]
+    : "Невалиден CSV файл.";
+}
+
+function detectDelimiter(line: string): string {
+  const candidates = [";", "\t", ","];
+  let best = ",";
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = line.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else {
+        quoted = !quoted;
+      }
+      continue;
+    }
+
+    if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = "";
+      continue;
+    }
+
+    current += char;
+  }
+
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseCell(value: string | undefined, delimiter: string): number {
+  if (value === undefined) {
+    return Number.NaN;
+  }
+
+  const normalized =
+    delimiter === "," ? value.trim() : value.trim().replace(",", ".");
+  if (!normalized) {
+    return Number.NaN;
+  }
+
+  return Number(normalized);
+}
+
+export function parseCsvText(text: string): ParsedCsv {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+
+  if (lines.length < 2) {
+    throw new CsvImportError(
+      "noSamples",
+      "CSV file needs a header row and at least one sample.",
+    );
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = splitCsvLine(lines[0], delimiter);
+  const rows = lines
+    .slice(1)
+    .map((line) => splitCsvLine(line, delimiter))
+    .map((cells) =>
+      cells.map((cell) => {
+        const parsed = parseCell(cell, delimiter);
+        return Number.isFinite(parsed) ? String(parsed) : cell;
+      }),
+    );
+
+  return { headers, rows };
+}
+
+function findColumn(
+  headers: string[],
+  pattern: RegExp,
+  skip: number[],
+): number {
+  return headers.findIndex(
+    (header, index) => !skip.includes(index) && pattern.test(header),
+  );
+}
+
+export function detectRunColumns(headers: string[]): RunColumnMapping {
+  const rpm = findColumn(headers, RPM_HEADER, []);
+  const afr = findColumn(headers, MIXTURE_HEADER, [rpm]);
+  const baro = headers.flatMap((header, index) =>
+    BARO_HEADER.test(header) ? [index] : [],
+  );
+  const boost = findColumn(headers, BOOST_HEADER, [rpm, afr, ...baro]);
+  const torque = findColumn(headers, TORQUE_HEADER, [rpm, afr, boost]);
+  const power = findColumn(headers, POWER_HEADER, [rpm, afr, boost, torque]);
+
+  const powerHeader = power >= 0 ? headers[power] : "";
+  const torqueHeader = torque >= 0 ? headers[torque] : "";
+  const boostHeader = boost >= 0 ? headers[boost] : "";
+  const afrHeader = afr >= 0 ? headers[afr] : "";
+
+  return {
+    rpm: rpm >= 0 ? rpm : 0,
+    power,
+    torque,
+    boost,
+    afr,
+    powerUnit: /kw/i.test(powerHeader) ? "kw" : "hp",
+    torqueUnit: /nm/i.test(torqueHeader) ? "nm" : "lbft",
+    boostUnit: /kpa/i.test(boostHeader)
+      ? ABSOLUTE_HEADER.test(boostHeader)
+        ? "mapKpa"
+        : "kpa"
+      : BAR_UNIT.test(boostHeader)
+        ? "bar"
+        : "psi",
+    mixtureUnit: /lambda|λ/i.test(afrHeader) ? "lambda" : "afr",
+  };
+}
+
+/** Absolute MAP columns (`mapKpa`) have `baroKpa` subtracted to get boost. */
+export function buildRunSamples(
+  rows: string[][],
+  mapping: RunColumnMapping,
+  baroKpa = STANDARD_BARO_KPA,
+): RunSample[] {
+  if (mapping.power < 0 && mapping.torque < 0) {
+    throw new CsvImportError(
+      "noPowerColumn",
+      "Map at least one power or torque column.",
+    );
+  }
+
+  const powerFactor = mapping.powerUnit === "kw" ? KW_TO_HP : 1;
+  const torqueFactor = mapping.torqueUnit === "nm" ? NM_TO_LBFT : 1;
+  const boostFactor =
+    mapping.boostUnit === "bar"
+      ? BAR_TO_PSI
+      : mapping.boostUnit === "kpa" || mapping.boostUnit === "mapKpa"
+        ? KPA_TO_PSI
+        : 1;
+  const boostOffset = mapping.boostUnit === "mapKpa" ? baroKpa : 0;
+  const mixtureFactor = mapping.mixtureUnit === "lambda" ? STOICH_AFR : 1;
+  const byRpm = new Map<number, RunSample>();
+
+  for (const row of rows) {
+    const rpm = Number(row[mapping.rpm]);
+    if (!Number.isFinite(rpm) || rpm <= 0) {
+      continue;
+    }
+
+    const rawPower = mapping.power >= 0 ? Number(row[mapping.power]) : NaN;
+    const rawTorque = mapping.torque >= 0 ? Number(row[mapping.torque]) : NaN;
+    const hp = Number.isFinite(rawPower)
+      ? rawPower * powerFactor
+      : (rawTorque * torqueFactor * rpm) / HP_TORQUE_CONSTANT;
+    const tq = Number.isFinite(rawTorque)
+      ? rawTorque * torqueFactor
+      : (hp * HP_TORQUE_CONSTANT) / rpm;
+
+    if (!Number.isFinite(hp) || !Number.isFinite(tq)) {
+      continue;
+    }
+
+    const sample: RunSample = {
+      rpm: Math.round(rpm),
+      hp: Math.max(0, hp),
+      tq: Math.max(0, tq),
+    };
+
+    const rawBoost = mapping.boost >= 0 ? Number(row[mapping.boost]) : NaN;
+    if (Number.isFinite(rawBoost)) {
+      sample.boost = (rawBoost - boostOffset) * boostFactor;
+    }
+
+    const rawAfr = mapping.afr >= 0 ? Number(row[mapping.afr]) : NaN;
+    if (Number.isFinite(rawAfr) && rawAfr > 0) {
+      sample.afr = rawAfr * mixtureFactor;
+    }
+
+    byRpm.set(sample.rpm, sample);
+  }
+
+  const samples = Array.from(byRpm.values()).sort((a, b) => a.rpm - b.rpm);
+  if (samples.length < 2) {
+    throw new CsvImportError(
+      "tooFewSamples",
+      "CSV file has fewer than two usable samples.",
+    );
+  }
+
+  return samples;
+}
+
+export function hasRunChannel(
+  samples: RunSample[],
+  channel: "boost" | "afr",
+): boolean {
+  return samples.some((sample) => sample[channel] !== undefined);
+}
+
+export function getRunPeaks(samples: RunSample[]): RunPeaks {
+  const peaks = samples.reduce<RunPeaks>(
+    (acc, sample) => ({
+      whp: Math.max(acc.whp, Math.round(sample.hp)),
+      wtq: Math.max(acc.wtq, Math.round(sample.tq)),
+      rpm: Math.max(acc.rpm, sample.rpm),
+    }),
+    { whp: 0, wtq: 0, rpm: 0 },
+  );
+
+  if (hasRunChannel(samples, "boost")) {
+    const boost = Math.max(...samples.map((sample) => sample.boost ?? 0));
+    peaks.psi = Number(boost.toFixed(1));
+  }
+
+  // AFR is reported where the engine makes peak power, not as an extreme.
+  const peakPowerSample = samples.reduce((best, sample) =>
+    sample.hp > best.hp ? sample : best,
+  );
+  if (peakPowerSample.afr !== undefined) {
+    peaks.afr = Number(peakPowerSample.afr.toFixed(1));
+  }
+
+  return peaks;
+}
+
+// Colours repeat every RUN_STYLES.length runs; the dash pattern shifts each
+// cycle, so the first RUN_STYLES.length² styles are all distinct.
+export function getRunStyle(index: number): RunStyle {
+  const count = RUN_STYLES.length;
+  const safeIndex = Math.max(0, Math.floor(index));
+  const base = RUN_STYLES[safeIndex % count];
+  const cycle = Math.floor(safeIndex / count);
+  return cycle
+    ? { ...base, dash: RUN_STYLES[(safeIndex + cycle) % count].dash }
+    : base;
+}
+
+/** Lowest style index no existing run uses, so removals free up styles. */
+export function getNextRunStyleIndex(runs: DynoRun[]): number {
+  const used = new Set(runs.map((run) => run.styleIndex));
+  let index = 0;
+  while (used.has(index)) {
+    index += 1;
+  }
+  return index;
+}
+
+export function createRunId(): string {
+  return `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function findRun(
+  runs: DynoRun[],
+  id: string | null,
+  fallback: DynoRun | null,
+): DynoRun | null {
+  return runs.find((item) => item.id === id) ?? fallback;
+}
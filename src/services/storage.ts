@@ -1,10 +1,29 @@
-import type { DynoData, PersistedState } from "../types";
+import type {
+  DynoData,
+  DynoRun,
+  PersistedState,
+  QuarantineEntry,
+  RunSample,
+} from "../types";
+import { CORRECTION_STANDARDS } from "./correction";
+import { DEFAULT_CURVE_PROFILE, toCurveProfile } from "./curves";
+import { isMetricInRange, isMetricKey, METRIC_BOUNDS } from "./metrics";
+import { createRunId } from "./runData";
 
 export const STORAGE_KEYS = {
   state: "faka-dyno-state-v1",
   apiKey: "faka-dyno-api-key",
   imgbbApiKey: "faka-dyno-imgbb-api-key",
   uploadProvider: "faka-dyno-upload-provider",
+  uploadSettings: "faka-dyno-upload-settings",
+  uploadTimeout: "faka-dyno-upload-timeout",
+  unitSystem: "faka-dyno-unit-system",
+  drivetrainLosses: "faka-dyno-drivetrain-losses",
+  graphAxes: "faka-dyno-graph-axes",
+  drafts: "faka-dyno-drafts",
+  quarantine: "faka-dyno-quarantine",
+  reportNumberFormat: "faka-dyno-report-number-format",
+  reportCounter: "faka-dyno-report-counter",
   splashLastSeen: "faka-dyno-splash-last-seen",
 } as const;
 
@@ -24,41 +43,357 @@ export function getStoredValue(key: string, fallback = ""): string {
   return window.localStorage.getItem(key) || fallback;
 }
 
-export function setStoredValue(key: string, value: string): void {
+/** Returns false when the browser refuses the write, e.g. a full quota. */
+export function setStoredValue(key: string, value: string): boolean {
   if (typeof window === "undefined") {
-    return;
+    return false;
   }
 
-  window.localStorage.setItem(key, value);
+  try {
+    window.localStorage.setItem(key, value);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
-export function getPersistedState(defaultData: DynoData): PersistedState {
-  if (typeof window === "undefined") {
-    return {
-      data: defaultData,
-      showHp: true,
-      showTq: true,
-    };
+export interface RejectedValue {
+  path: string;
+  reason: string;
+  value: unknown;
+}
+
+export interface ValidatedState {
+  state: PersistedState;
+  rejected: RejectedValue[];
+}
+
+const MAX_QUARANTINE_ENTRIES = 200;
+const MAX_QUARANTINE_SIZE = 256 * 1024;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isBoolean(value: unknown): boolean {
+  return typeof value === "boolean";
+}
+
+function isValidSample(sample: unknown): sample is RunSample {
+  return (
+    isRecord(sample) &&
+    Number.isFinite(sample.rpm) &&
+    Number.isFinite(sample.hp) &&
+    Number.isFinite(sample.tq)
+  );
+}
+
+function toStoredRun(
+  value: unknown,
+  path: string,
+  index: number,
+  rejected: RejectedValue[],
+): DynoRun | null {
+  if (!isRecord(value) || !Array.isArray(value.samples)) {
+    rejected.push({ path, reason: "Run has no sample list", value });
+    return null;
   }
 
-  const raw = window.localStorage.getItem(STORAGE_KEYS.state);
-  if (!raw) {
-    return {
-      data: defaultData,
-      showHp: true,
-      showTq: true,
-    };
+  const samples = value.samples.filter(isValidSample);
+  if (samples.length < 2) {
+    rejected.push({
+      path,
+      reason: "Run has fewer than 2 valid samples",
+      value,
+    });
+    return null;
   }
 
-  const parsed = safeParse(raw, {
-    data: defaultData,
-    showHp: true,
-    showTq: true,
+  if (samples.length < value.samples.length) {
+    rejected.push({
+      path: `${path}.samples`,
+      reason: "Invalid samples removed from run",
+      value: value.samples.filter((sample) => !isValidSample(sample)),
+    });
+  }
+
+  return {
+    id: typeof value.id === "string" && value.id ? value.id : createRunId(),
+    name: typeof value.name === "string" ? value.name : "",
+    fileName: typeof value.fileName === "string" ? value.fileName : "",
+    importedAt: Number(value.importedAt) || 0,
+    hidden: value.hidden === true,
+    styleIndex:
+      Number.isInteger(value.styleIndex) && Number(value.styleIndex) >= 0
+        ? Number(value.styleIndex)
+        : index,
+    samples: samples.map((sample) => ({
+      rpm: sample.rpm,
+      hp: sample.hp,
+      tq: sample.tq,
+      ...(Number.isFinite(sample.boost) ? { boost: sample.boost } : {}),
+      ...(Number.isFinite(sample.afr) ? { afr: sample.afr } : {}),
+    })),
+  };
+}
+
+function toRunId(value: unknown, runs: DynoRun[]): string | null {
+  return typeof value === "string" && runs.some((run) => run.id === value)
+    ? value
+    : null;
+}
+
+function toDataField(
+  key: keyof DynoData,
+  value: unknown,
+  fallback: DynoData[keyof DynoData],
+): DynoData[keyof DynoData] | undefined {
+  if (isMetricKey(key)) {
+    const numeric =
+      typeof value === "string" && value.trim() ? Number(value) : value;
+    return isMetricInRange(key, numeric) ? (numeric as number) : undefined;
+  }
+
+  if (key === "correctionStandard") {
+    return CORRECTION_STANDARDS.some((item) => item.value === value)
+      ? (value as DynoData["correctionStandard"])
+      : undefined;
+  }
+
+  if (typeof fallback === "boolean") {
+    return typeof value === "boolean" ? value : undefined;
+  }
+
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return typeof value === "string" ? value : undefined;
+}
+
+function toStoredData(
+  value: unknown,
+  defaultData: DynoData,
+  rejected: RejectedValue[],
+): DynoData {
+  if (value === undefined) {
+    return defaultData;
+  }
+
+  if (!isRecord(value)) {
+    rejected.push({
+      path: "data",
+      reason: "Report data is not an object",
+      value,
+    });
+    return defaultData;
+  }
+
+  const data = { ...defaultData } as Record<keyof DynoData, unknown>;
+  Object.entries(value).forEach(([field, fieldValue]) => {
+    const key = field as keyof DynoData;
+    if (!(key in defaultData)) {
+      rejected.push({
+        path: `data.${field}`,
+        reason: "Unknown field",
+        value: fieldValue,
+      });
+      return;
+    }
+
+    const next = toDataField(key, fieldValue, defaultData[key]);
+    if (next === undefined) {
+      const reason = isMetricKey(key)
+        ? `Expected a number between ${METRIC_BOUNDS[key].min} and ${METRIC_BOUNDS[key].max}`
+        : `Expected ${typeof defaultData[key] === "boolean" ? "true or false" : "text"}`;
+      rejected.push({ path: `data.${field}`, reason, value: fieldValue });
+      return;
+    }
+
+    data[key] = next;
   });
 
+  return data as DynoData;
+}
+
+export function validatePersistedState(
+  parsed: Record<string, unknown>,
+  defaultData: DynoData,
+): ValidatedState {
+  const rejected: RejectedValue[] = [];
+  const defaults = createDefaultState(defaultData);
+  const runs = (Array.isArray(parsed.runs) ? parsed.runs : [])
+    .map((run, index) => toStoredRun(run, `runs[${index}]`, index, rejected))
+    .filter((run): run is DynoRun => run !== null);
+
+  if (parsed.runs !== undefined && !Array.isArray(parsed.runs)) {
+    rejected.push({
+      path: "runs",
+      reason: "Runs are not a list",
+      value: parsed.runs,
+    });
+  }
+
+  const curveProfile = toCurveProfile(parsed.curveProfile);
+  if (
+    parsed.curveProfile !== undefined &&
+    JSON.stringify(curveProfile) !== JSON.stringify(parsed.curveProfile)
+  ) {
+    rejected.push({
+      path: "curveProfile",
+      reason: "Curve profile was out of range and has been corrected",
+      value: parsed.curveProfile,
+    });
+  }
+
+  const pick = <K extends keyof PersistedState>(
+    key: K,
+    isValid: (value: unknown) => boolean,
+  ): PersistedState[K] => {
+    const value = parsed[key];
+    if (value === undefined) {
+      return defaults[key];
+    }
+
+    if (!isValid(value)) {
+      rejected.push({ path: key, reason: "Invalid value", value });
+      return defaults[key];
+    }
+
+    return value as PersistedState[K];
+  };
+
+  const state: PersistedState = {
+    reportId: pick(
+      "reportId",
+      (value) => value === null || typeof value === "string",
+    ),
+    reportNumber: pick(
+      "reportNumber",
+      (value) => value === null || typeof value === "string",
+    ),
+    data: toStoredData(parsed.data, defaultData, rejected),
+    runs,
+    baselineRunId: toRunId(parsed.baselineRunId, runs),
+    selectedRunId: toRunId(parsed.selectedRunId, runs),
+    curveProfile,
+    pinnedRpm: pick(
+      "pinnedRpm",
+      (value) => value === null || Number.isFinite(value),
+    ),
+    showHp: pick("showHp", isBoolean),
+    showTq: pick("showTq", isBoolean),
+    showBoost: pick("showBoost", isBoolean),
+    showAfr: pick("showAfr", isBoolean),
+    showPeaks: pick("showPeaks", isBoolean),
+    showPowerband: pick("showPowerband", isBoolean),
+    showArea: pick("showArea", isBoolean),
+  };
+
+  return { state, rejected };
+}
+
+export function createDefaultState(defaultData: DynoData): PersistedState {
   return {
-    data: { ...defaultData, ...(parsed.data || {}) },
-    showHp: typeof parsed.showHp === "boolean" ? parsed.showHp : true,
-    showTq: typeof parsed.showTq === "boolean" ? parsed.showTq : true,
+    reportId: null,
+    reportNumber: null,
+    data: defaultData,
+    runs: [],
+    baselineRunId: null,
+    selectedRunId: null,
+    curveProfile: DEFAULT_CURVE_PROFILE,
+    pinnedRpm: null,
+    showHp: true,
+    showTq: true,
+    showBoost: false,
+    showAfr: false,
+    showPeaks: false,
+    showPowerband: false,
+    showArea: false,
   };
 }
+
+/** Accepts raw JSON as well as library snapshots that are already typed. */
+export function toPersistedState(
+  parsed: Record<string, unknown> | Partial<PersistedState>,
+  defaultData: DynoData,
+): PersistedState {
+  return validatePersistedState({ ...parsed }, defaultData).state;
+}
+
+export function getQuarantine(): QuarantineEntry[] {
+  const parsed = safeParse<unknown>(
+    getStoredValue(STORAGE_KEYS.quarantine),
+    [],
+  );
+  return Array.isArray(parsed) ? (parsed as QuarantineEntry[]) : [];
+}
+
+function isSameEntry(
+  a: Pick<QuarantineEntry, "source" | "path" | "value">,
+  b: Pick<QuarantineEntry, "source" | "path" | "value">,
+): boolean {
+  return (
+    a.source === b.source &&
+    a.path === b.path &&
+    JSON.stringify(a.value) === JSON.stringify(b.value)
+  );
+}
+
+export interface QuarantineResult {
+  entries: QuarantineEntry[];
+  saved: boolean;
+}
+
+// Oldest entries are dropped first so one corrupt store can't fill the quota.
+function toQuarantineJson(entries: QuarantineEntry[]): string {
+  let kept = entries.slice(-MAX_QUARANTINE_ENTRIES);
+  let json = JSON.stringify(kept);
+  while (kept.length && json.length > MAX_QUARANTINE_SIZE) {
+    kept = kept.slice(1);
+    json = JSON.stringify(kept);
+  }
+
+  return json;
+}
+
+// Returns the quarantine entries for `rejected`; values already quarantined
+// by an earlier load are not stored twice.
+export function quarantineValues(
+  source: string,
+  rejected: RejectedValue[],
+): QuarantineResult {
+  if (!rejected.length) {
+    return { entries: [], saved: true };
+  }
+
+  const existing = getQuarantine();
+  const now = Date.now();
+  const entries = rejected.map(
+    (item, index) =>
+      existing.find((entry) => isSameEntry(entry, { source, ...item })) ?? {
+        id: `${now.toString(36)}-${index}`,
+        quarantinedAt: now,
+        source,
+        ...item,
+      },
+  );
+  const added = entries.filter((entry) => !existing.includes(entry));
+
+  const saved =
+    !added.length ||
+    setStoredValue(
+      STORAGE_KEYS.quarantine,
+      toQuarantineJson([...existing, ...added]),
+    );
+
+  return { entries, saved };
+}
+
+export function clearQuarantine(): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.localStorage.removeItem(STORAGE_KEYS.quarantine);
+}
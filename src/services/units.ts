@@ -0,0 +1,164 @@
+import type { MetricKey, RunSample, SliderItem } from "../types";
+
+export type UnitSystem = "imperial" | "metric";
+
+export type Quantity = "power" | "torque" | "boost";
+
+export interface UnitLabels {
+  power: string;
+  torque: string;
+  boost: string;
+  crankPower: string;
+  crankTorque: string;
+  pressure: string;
+}
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["imperial", "metric"];
+
+const UNIT_LABELS: Record<UnitSystem, UnitLabels> = {
+  imperial: {
+    power: "WHP",
+    torque: "WTQ",
+    boost: "psi",
+    crankPower: "HP",
+    crankTorque: "lb-ft",
+    pressure: "inHg",
+  },
+  metric: {
+    power: "kW",
+    torque: "Nm",
+    boost: "bar",
+    crankPower: "kW",
+    crankTorque: "Nm",
+    pressure: "hPa",
+  },
+};
+
+// Canonical values are hp, lb-ft and psi; these factors convert to metric.
+const METRIC_FACTORS: Record<Quantity, number> = {
+  power: 0.745699872,
+  torque: 1.3558179483,
+  boost: 0.0689475729,
+};
+
+const HPA_PER_INHG = 33.8639;
+
+const METRIC_DECIMALS: Record<Quantity, number> = {
+  power: 0,
+  torque: 0,
+  boost: 2,
+};
+
+const METRIC_QUANTITIES: Partial<Record<MetricKey, Quantity>> = {
+  whp: "power",
+  wtq: "torque",
+  psi: "boost",
+};
+
+export function toUnitSystem(value: string): UnitSystem {
+  return value === "metric" ? "metric" : "imperial";
+}
+
+export function getUnitLabels(system: UnitSystem): UnitLabels {
+  return UNIT_LABELS[system];
+}
+
+export function toDisplayUnits(
+  quantity: Quantity,
+  value: number,
+  system: UnitSystem,
+): number {
+  return system === "metric" ? value * METRIC_FACTORS[quantity] : value;
+}
+
+export function fromDisplayUnits(
+  quantity: Quantity,
+  value: number,
+  system: UnitSystem,
+): number {
+  return system === "metric" ? value / METRIC_FACTORS[quantity] : value;
+}
+
+export function formatQuantity(
+  quantity: Quantity,
+  value: number,
+  system: UnitSystem,
+): string {
+  const display = toDisplayUnits(quantity, value, system);
+  if (system === "metric") {
+    return display.toFixed(METRIC_DECIMALS[quantity]);
+  }
+
+  return quantity === "boost"
+    ? display.toFixed(1)
+    : String(Math.round(display));
+}
+
+/** Barometric pressure is parsed to hPa; imperial reports show inHg. */
+export function formatPressure(hpa: number, system: UnitSystem): string {
+  return system === "metric"
+    ? String(Math.round(hpa))
+    : (hpa / HPA_PER_INHG).toFixed(2);
+}
+
+export function getMetricQuantity(key: MetricKey): Quantity | null {
+  return METRIC_QUANTITIES[key] ?? null;
+}
+
+export function toDisplayMetric(
+  key: MetricKey,
+  value: number,
+  system: UnitSystem,
+): number {
+  const quantity = getMetricQuantity(key);
+  return quantity ? toDisplayUnits(quantity, value, system) : value;
+}
+
+export function fromDisplayMetric(
+  key: MetricKey,
+  value: number,
+  system: UnitSystem,
+): number {
+  const quantity = getMetricQuantity(key);
+  return quantity ? fromDisplayUnits(quantity, value, system) : value;
+}
+
+export function toDisplaySlider(
+  item: SliderItem,
+  system: UnitSystem,
+): SliderItem {
+  const quantity = getMetricQuantity(item.key);
+  if (!quantity || system === "imperial") {
+    return item;
+  }
+
+  const labels = getUnitLabels(system);
+  const decimals = METRIC_DECIMALS[quantity];
+  const round = (value: number) => Number(value.toFixed(decimals));
+
+  return {
+    ...item,
+    label: item.label.replace(/HP|TQ|PSI/, labels[quantity]),
+    min: round(toDisplayUnits(quantity, item.min, system)),
+    max: round(toDisplayUnits(quantity, item.max, system)),
+    step: decimals > 0 ? 1 / 10 ** decimals : 1,
+  };
+}
+
+export function toDisplaySample(
+  sample: RunSample,
+  system: UnitSystem,
+): RunSample {
+  if (system === "imperial") {
+    return sample;
+  }
+
+  return {
+    ...sample,
+    hp: toDisplayUnits("power", sample.hp, system),
+    tq: toDisplayUnits("torque", sample.tq, system),
+    ...(sample.boost !== undefined
+      ? { boost: toDisplayUnits("boost", sample.boost, system) }
+      : {}),
+  };
+}
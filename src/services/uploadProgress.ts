@@ -0,0 +1,62 @@
+export type UploadPhase = "capture" | "resize" | "upload";
+
+export interface UploadProgressState {
+  phase: UploadPhase;
+  phaseStartedAt: number;
+  /** Share of the request body sent, null until the browser reports it. */
+  percent: number | null;
+  durations: Partial<Record<UploadPhase, number>>;
+}
+
+export const UPLOAD_PHASES: UploadPhase[] = ["capture", "resize", "upload"];
+
+export const UPLOAD_PHASE_LABELS: Record<UploadPhase, string> = {
+  capture: "Снимка",
+  resize: "Оптимизация",
+  upload: "Качване",
+};
+
+export const DEFAULT_UPLOAD_TIMEOUT_S = 60;
+const MIN_UPLOAD_TIMEOUT_S = 5;
+const MAX_UPLOAD_TIMEOUT_S = 600;
+
+export function parseUploadTimeout(value: string): number {
+  const seconds = Math.round(Number(value));
+  if (!value.trim() || !Number.isFinite(seconds)) {
+    return DEFAULT_UPLOAD_TIMEOUT_S;
+  }
+
+  return Math.min(
+    MAX_UPLOAD_TIMEOUT_S,
+    Math.max(MIN_UPLOAD_TIMEOUT_S, seconds),
+  );
+}
+
+export function startUploadProgress(now = Date.now()): UploadProgressState {
+  return {
+    phase: "capture",
+    phaseStartedAt: now,
+    percent: null,
+    durations: {},
+  };
+}
+
+export function advanceUploadPhase(
+  progress: UploadProgressState,
+  phase: UploadPhase,
+  now = Date.now(),
+): UploadProgressState {
+  return {
+    phase,
+    phaseStartedAt: now,
+    percent: null,
+    durations: {
+      ...progress.durations,
+      [progress.phase]: now - progress.phaseStartedAt,
+    },
+  };
+}
+
+export function formatPhaseDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(1)} s`;
+}
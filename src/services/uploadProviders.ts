@@ -0,0 +1,387 @@
+import type { UploadProviderId, UploadReportDetails } from "../types";
+import {
+  blobToBase64Payload,
+  ensureNonEmpty,
+  isRecord,
+  PRIMARY_API_BASE,
+  searchUploads,
+  type SearchFilters,
+  type SearchPage,
+} from "./api";
+import { getStoredValue, setStoredValue, STORAGE_KEYS } from "./storage";
+
+export type ProviderSettings = Record<string, string>;
+
+export interface ProviderField {
+  key: string;
+  label: string;
+  placeholder: string;
+  /** Never shown back in full; an empty input keeps the stored value. */
+  secret?: boolean;
+  multiline?: boolean;
+  required?: boolean;
+}
+
+export interface UploadRequest {
+  blob: Blob;
+  fileName: string;
+  settings: ProviderSettings;
+  details?: UploadReportDetails;
+}
+
+export interface UploadHttpRequest {
+  url: string;
+  headers?: Record<string, string>;
+  body: FormData;
+}
+
+export interface UploadProviderDefinition {
+  id: UploadProviderId;
+  label: string;
+  fields: ProviderField[];
+  buildRequest: (request: UploadRequest) => Promise<UploadHttpRequest>;
+  extractUrl: (payload: unknown, settings: ProviderSettings) => string;
+  /** Throws when saved settings could never build a request. */
+  validate?: (settings: ProviderSettings) => void;
+  /** Only providers with a search endpoint show the search panel. */
+  search?: (
+    query: string,
+    settings: ProviderSettings,
+    page: { filters: SearchFilters; cursor: string | null; limit: number },
+  ) => Promise<SearchPage>;
+}
+
+export const DEFAULT_UPLOAD_PROVIDER: UploadProviderId = "primary";
+
+const DEFAULT_FIELD_NAME = "file";
+const DEFAULT_URL_PATH = "url";
+const DISCORD_EMBED_COLOR = 0xe61e1e;
+const DISCORD_FIELD_MAX_LENGTH = 1024;
+
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line) => {
+      const separator = line.indexOf(":");
+      const name = separator > 0 ? line.slice(0, separator).trim() : "";
+      if (!name) {
+        throw new Error(`Invalid header line "${line}".`);
+      }
+
+      headers[name] = line.slice(separator + 1).trim();
+    });
+  return headers;
+}
+
+function parseEndpointUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid endpoint URL "${value}".`);
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`Endpoint URL must use http or https: "${value}".`);
+  }
+
+  return url;
+}
+
+/** Reads `data.files[0].url` style paths from a parsed JSON response. */
+export function getJsonPath(value: unknown, path: string): unknown {
+  return path
+    .replace(/\[(\d+)\]/g, ".$1")
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>(
+      (current, segment) => (isRecord(current) ? current[segment] : undefined),
+      value,
+    );
+}
+
+const primaryProvider: UploadProviderDefinition = {
+  id: "primary",
+  label: "FAKA Upload (main)",
+  fields: [
+    {
+      key: "apiKey",
+      label: "Въведи FAKA API ключ",
+      placeholder: "Постави тайния сос, без него няма upload магия",
+      secret: true,
+      required: true,
+    },
+  ],
+  buildRequest: async ({ blob, fileName, settings }) => {
+    const formData = new FormData();
+    formData.append("file", blob, fileName);
+
+    return {
+      url: `${PRIMARY_API_BASE}/upload`,
+      headers: {
+        "X-API-Key": ensureNonEmpty(settings.apiKey ?? "", "API key"),
+      },
+      body: formData,
+    };
+  },
+  extractUrl: (payload) =>
+    isRecord(payload) && typeof payload.url === "string" ? payload.url : "",
+  search: (query, settings, page) =>
+    searchUploads({ query, apiKey: settings.apiKey ?? "", ...page }),
+};
+
+const imgbbProvider: UploadProviderDefinition = {
+  id: "imgbb",
+  label: "imgbb (backup)",
+  fields: [
+    {
+      key: "apiKey",
+      label: "Въведи imgbb API ключ",
+      placeholder: "Въведи imgbb API key",
+      secret: true,
+      required: true,
+    },
+  ],
+  buildRequest: async ({ blob, fileName, settings }) => {
+    const apiKey = ensureNonEmpty(settings.apiKey ?? "", "API key");
+    const body = new FormData();
+    body.append("image", await blobToBase64Payload(blob));
+    body.append("name", fileName.replace(/\.png$/i, ""));
+
+    return {
+      url: `https://api.imgbb.com/1/upload?key=${encodeURIComponent(apiKey)}`,
+      body,
+    };
+  },
+  extractUrl: (payload) => {
+    const data =
+      isRecord(payload) && isRecord(payload.data) ? payload.data : {};
+    return typeof data.url === "string"
+      ? data.url
+      : typeof data.display_url === "string"
+        ? data.display_url
+        : typeof data.url_viewer === "string"
+          ? data.url_viewer
+          : "";
+  },
+};
+
+const customProvider: UploadProviderDefinition = {
+  id: "custom",
+  label: "Собствен HTTP endpoint",
+  fields: [
+    {
+      key: "url",
+      label: "Upload URL",
+      placeholder: "https://example.com/upload",
+      required: true,
+    },
+    {
+      key: "headers",
+      label: "Headers (по един на ред)",
+      placeholder: "Authorization: Bearer ...",
+      multiline: true,
+    },
+    {
+      key: "fieldName",
+      label: "Поле за файла",
+      placeholder: DEFAULT_FIELD_NAME,
+    },
+    {
+      key: "urlPath",
+      label: "JSON път до URL в отговора",
+      placeholder: "data.url",
+    },
+  ],
+  buildRequest: async ({ blob, fileName, settings }) => {
+    const endpoint = ensureNonEmpty(settings.url ?? "", "endpoint URL");
+    const formData = new FormData();
+    formData.append(
+      settings.fieldName?.trim() || DEFAULT_FIELD_NAME,
+      blob,
+      fileName,
+    );
+
+    return {
+      url: parseEndpointUrl(endpoint).href,
+      headers: parseHeaderLines(settings.headers ?? ""),
+      body: formData,
+    };
+  },
+  validate: (settings) => {
+    const endpoint = settings.url?.trim();
+    if (endpoint) {
+      parseEndpointUrl(endpoint);
+    }
+    parseHeaderLines(settings.headers ?? "");
+  },
+  extractUrl: (payload, settings) => {
+    const value = getJsonPath(
+      payload,
+      settings.urlPath?.trim() || DEFAULT_URL_PATH,
+    );
+    return typeof value === "string" ? value : "";
+  },
+};
+
+export function buildDiscordPayload(
+  fileName: string,
+  details?: UploadReportDetails,
+): Record<string, unknown> {
+  return {
+    embeds: [
+      {
+        title: details?.title ?? fileName,
+        color: DISCORD_EMBED_COLOR,
+        // Discord rejects empty field values.
+        fields: (details?.fields ?? []).map((field) => ({
+          name: field.name,
+          value: field.value.trim().slice(0, DISCORD_FIELD_MAX_LENGTH) || "—",
+          inline: field.inline,
+        })),
+        image: { url: `attachment://${fileName}` },
+        timestamp: new Date().toISOString(),
+      },
+    ],
+  };
+}
+
+// The webhook URL carries its token, so it is left out of error messages.
+function parseDiscordWebhookUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error("Invalid Discord webhook URL.");
+  }
+
+  if (url.protocol !== "https:") {
+    throw new Error("Discord webhook URL must use https.");
+  }
+
+  if (!url.pathname.includes("/api/webhooks/")) {
+    throw new Error('Discord webhook URL must contain "/api/webhooks/".');
+  }
+
+  return url;
+}
+
+const discordProvider: UploadProviderDefinition = {
+  id: "discord",
+  label: "Discord webhook",
+  fields: [
+    {
+      key: "webhookUrl",
+      label: "Discord webhook URL",
+      placeholder: "https://discord.com/api/webhooks/...",
+      secret: true,
+      required: true,
+    },
+  ],
+  buildRequest: async ({ blob, fileName, settings, details }) => {
+    const webhook = parseDiscordWebhookUrl(
+      ensureNonEmpty(settings.webhookUrl ?? "", "webhook URL"),
+    );
+    // Without wait=true Discord answers 204 and the attachment URL is lost.
+    webhook.searchParams.set("wait", "true");
+    const body = new FormData();
+    body.append(
+      "payload_json",
+      JSON.stringify(buildDiscordPayload(fileName, details)),
+    );
+    body.append("files[0]", blob, fileName);
+
+    return { url: webhook.href, body };
+  },
+  validate: (settings) => {
+    const webhook = settings.webhookUrl?.trim();
+    if (webhook) {
+      parseDiscordWebhookUrl(webhook);
+    }
+  },
+  extractUrl: (payload) => {
+    const value = getJsonPath(payload, "attachments[0].url");
+    return typeof value === "string" ? value : "";
+  },
+};
+
+export const UPLOAD_PROVIDERS: UploadProviderDefinition[] = [
+  primaryProvider,
+  imgbbProvider,
+  customProvider,
+  discordProvider,
+];
+
+export function findUploadProvider(
+  id: string,
+): UploadProviderDefinition | undefined {
+  return UPLOAD_PROVIDERS.find((provider) => provider.id === id);
+}
+
+export function getUploadProvider(id: string): UploadProviderDefinition {
+  return findUploadProvider(id) ?? primaryProvider;
+}
+
+export function getMissingFields(
+  provider: UploadProviderDefinition,
+  settings: ProviderSettings,
+): ProviderField[] {
+  return provider.fields.filter(
+    (field) => field.required && !settings[field.key]?.trim(),
+  );
+}
+
+export function getSettingsError(
+  provider: UploadProviderDefinition,
+  settings: ProviderSettings,
+): string | null {
+  try {
+    provider.validate?.(settings);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function getStoredProviderSettings(): Record<
+  UploadProviderId,
+  ProviderSettings
+> {
+  let stored: unknown = null;
+  try {
+    stored = JSON.parse(getStoredValue(STORAGE_KEYS.uploadSettings, "{}"));
+  } catch {
+    stored = null;
+  }
+
+  const source = isRecord(stored) ? stored : {};
+  // API keys saved before providers shared one settings object.
+  const legacy: Record<UploadProviderId, ProviderSettings> = {
+    primary: { apiKey: getStoredValue(STORAGE_KEYS.apiKey) },
+    imgbb: { apiKey: getStoredValue(STORAGE_KEYS.imgbbApiKey) },
+  };
+
+  return Object.fromEntries(
+    UPLOAD_PROVIDERS.map((provider) => {
+      const raw = source[provider.id];
+      const entry: Record<string, unknown> = isRecord(raw) ? raw : {};
+      const settings: ProviderSettings = { ...legacy[provider.id] };
+      provider.fields.forEach((field) => {
+        const value = entry[field.key];
+        if (typeof value === "string") {
+          settings[field.key] = value;
+        }
+      });
+      return [provider.id, settings];
+    }),
+  );
+}
+
+export function setStoredProviderSettings(
+  settings: Record<UploadProviderId, ProviderSettings>,
+): boolean {
+  return setStoredValue(STORAGE_KEYS.uploadSettings, JSON.stringify(settings));
+}
@@ -0,0 +1,90 @@
+import type {
+  QueuedUpload,
+  UploadProviderId,
+  UploadReportDetails,
+} from "../types";
+import { getRetryAfterMs, isRetryableError } from "./apiErrors";
+import { DB_STORES, withStore } from "./db";
+
+const RETRY_BASE_MS = 15_000;
+const RETRY_MAX_MS = 15 * 60_000;
+export const MAX_UPLOAD_ATTEMPTS = 6;
+
+export function createUploadId(): string {
+  return `upload-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createQueuedUpload(params: {
+  provider: UploadProviderId;
+  fileName: string;
+  blob: Blob;
+  reportId: string | null;
+  logId: string | null;
+  details: UploadReportDetails | null;
+  lastError: string | null;
+  retryAfterMs?: number;
+}): QueuedUpload {
+  const { retryAfterMs = 0, ...upload } = params;
+  const now = Date.now();
+  return {
+    ...upload,
+    id: createUploadId(),
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now + Math.max(RETRY_BASE_MS, retryAfterMs),
+    failed: false,
+  };
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+export function scheduleRetry(
+  item: QueuedUpload,
+  error: unknown,
+  now = Date.now(),
+): QueuedUpload {
+  const attempts = item.attempts + 1;
+  return {
+    ...item,
+    attempts,
+    nextAttemptAt:
+      now + Math.max(getRetryDelay(attempts), getRetryAfterMs(error)),
+    lastError: error instanceof Error ? error.message : "Upload failed.",
+    failed: attempts >= MAX_UPLOAD_ATTEMPTS || !isRetryableError(error),
+  };
+}
+
+export function isUploadDue(item: QueuedUpload, now = Date.now()): boolean {
+  return !item.failed && item.nextAttemptAt <= now;
+}
+
+export async function listQueuedUploads(): Promise<QueuedUpload[]> {
+  const uploads = await withStore<QueuedUpload[]>(
+    DB_STORES.uploads,
+    "readonly",
+    (store) => store.getAll(),
+  );
+  return uploads
+    .map((upload) => ({ ...upload, failed: upload.failed === true }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function getQueuedUpload(
+  id: string,
+): Promise<QueuedUpload | undefined> {
+  return withStore<QueuedUpload | undefined>(
+    DB_STORES.uploads,
+    "readonly",
+    (store) => store.get(id),
+  );
+}
+
+export async function putQueuedUpload(upload: QueuedUpload): Promise<void> {
+  await withStore(DB_STORES.uploads, "readwrite", (store) => store.put(upload));
+}
+
+export async function deleteQueuedUpload(id: string): Promise<void> {
+  await withStore(DB_STORES.uploads, "readwrite", (store) => store.delete(id));
+}
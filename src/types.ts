@@ -1,15 +1,21 @@
-export type UploadProvider = "primary" | "imgbb";
+export type UploadProviderId = string;
 
 export type MetricKey = "whp" | "wtq" | "psi" | "afr" | "rpm";
 
+export type CorrectionStandard = "SAE" | "DIN" | "STD";
+
 export interface DynoData {
   model: string;
   engine: string;
   plate: string;
   drivetrain: string;
+  drivetrainLossOverride: string;
   extTemp: string;
   humidity: string;
+  baroPressure: string;
+  correctionStandard: CorrectionStandard;
   correctionFactor: string;
+  correctionOverride: boolean;
   operator: string;
   owner: string;
   mechanicNotes: string;
@@ -28,20 +34,160 @@ export interface SliderItem {
   step: number;
 }
 
+export interface RunSample {
+  rpm: number;
+  hp: number;
+  tq: number;
+  boost?: number;
+  afr?: number;
+}
+
+export interface DynoRun {
+  id: string;
+  name: string;
+  fileName: string;
+  importedAt: number;
+  hidden: boolean;
+  /** Index into RUN_STYLES, fixed at import so colours survive removals. */
+  styleIndex: number;
+  samples: RunSample[];
+}
+
+export interface RunStyle {
+  hp: string;
+  tq: string;
+  dash: string;
+}
+
+export type EngineProfileId =
+  "na" | "small-turbo" | "big-turbo" | "supercharger" | "rotary" | "electric";
+
+export interface CurveProfile {
+  profile: EngineProfileId;
+  onsetRpm: number;
+  plateauWidth: number;
+  falloff: number;
+}
+
 export interface PersistedState {
+  reportId: string | null;
+  reportNumber: string | null;
   data: DynoData;
+  runs: DynoRun[];
+  baselineRunId: string | null;
+  selectedRunId: string | null;
+  curveProfile: CurveProfile;
+  pinnedRpm: number | null;
   showHp: boolean;
   showTq: boolean;
+  showBoost: boolean;
+  showAfr: boolean;
+  showPeaks: boolean;
+  showPowerband: boolean;
+  showArea: boolean;
 }
 
 export interface RecentUpload {
   url: string;
-  provider: UploadProvider | "unknown";
+  provider: UploadProviderId;
   createdAt: number;
   fileName: string;
+  operator: string;
 }
 
 export interface ToastState {
   message: string;
   tone: "info" | "success" | "error";
+}
+
+export interface DocMeta {
+  unixId: number;
+  /** `unixId` plus a random suffix; drafts opened in the same second differ. */
+  docId: string;
+  createdAt: string;
+}
+
+export interface ReportDraft {
+  id: string;
+  docMeta: DocMeta;
+  state: PersistedState;
+}
+
+export interface LibraryReport {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  state: PersistedState;
+  thumbnail: string;
+  uploadUrl: string | null;
+}
+
+export interface VehicleProfile {
+  plate: string;
+  model: string;
+  engine: string;
+  drivetrain: string;
+  owner: string;
+  updatedAt: number;
+}
+
+export interface QuarantineEntry {
+  id: string;
+  quarantinedAt: number;
+  source: string;
+  path: string;
+  reason: string;
+  value: unknown;
+}
+
+export type ApiErrorKind =
+  "auth" | "rateLimit" | "network" | "nonJson" | "payloadTooLarge" | "http";
+
+export interface ApiDiagnostic {
+  id: string;
+  createdAt: number;
+  context: string;
+  provider: string;
+  kind: ApiErrorKind | "unknown";
+  status: number | null;
+  message: string;
+  body: string;
+}
+
+export interface UploadReportDetails {
+  title: string;
+  fields: { name: string; value: string; inline: boolean }[];
+}
+
+export interface QueuedUpload {
+  id: string;
+  createdAt: number;
+  provider: UploadProviderId;
+  fileName: string;
+  blob: Blob;
+  reportId: string | null;
+  logId: string | null;
+  details: UploadReportDetails | null;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+  /** Gave up after too many attempts; only a manual retry sends it again. */
+  failed: boolean;
+}
+
+export type LogAction = "download" | "copy" | "upload";
+
+export interface OperatorLogEntry {
+  id: string;
+  createdAt: number;
+  action: LogAction;
+  operator: string;
+  plate: string;
+  model: string;
+  reportNumber: string | null;
+  whp: number;
+  wtq: number;
+  psi: number;
+  rpm: number;
+  url: string | null;
 }
\ No newline at end of file